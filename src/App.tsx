@@ -1,28 +1,118 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { ApiKeyManager } from './components/ApiKeyManager';
 import { PromptInput } from './components/PromptInput';
 import { SegmentsPanel } from './components/SegmentsPanel';
 import { PreviewPanel } from './components/PreviewPanel';
+import { ProjectSidebar } from './components/ProjectSidebar';
+import { VariablesPanel } from './components/VariablesPanel';
+import { PlaygroundPanel } from './components/PlaygroundPanel';
+import { VariantsPanel } from './components/VariantsPanel';
+import { SnapshotsPanel } from './components/SnapshotsPanel';
+import { EvalPanel } from './components/EvalPanel';
+import { AISettingsPanel } from './components/AISettingsPanel';
 import { usePromptEditor } from './hooks/usePromptEditor';
+import { useProjects } from './hooks/useProjects';
+import { useTokenizer } from './hooks/useTokenizer';
+import { useRequestQueue } from './hooks/useRequestQueue';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faMoon, faSun, faExclamationTriangle, faTimes, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import {
+  faMoon,
+  faSun,
+  faExclamationTriangle,
+  faTimes,
+  faSpinner,
+  faUndo,
+  faRedo,
+  faFolderOpen,
+  faSlidersH,
+  faSyncAlt
+} from '@fortawesome/free-solid-svg-icons';
+import { formatTokenCount } from './services/tokenizer';
+import { parseProjectFile } from './services/projectFile';
+import { renderTemplate } from './utils/templateVariables';
+import type { AIErrorKind } from './types';
 import './App.scss';
 
+const RETRY_REASONS: Partial<Record<AIErrorKind, string>> = {
+  rate_limit: 'Rate limited by the provider',
+  timeout: 'The model did not answer in time',
+  network: 'Could not reach the provider',
+  server: 'The provider had a server error'
+};
+
 const App: React.FC = () => {
   const {
     state,
     config,
     setConfig,
+    segmentationMode,
+    setSegmentationMode,
     setOriginalPrompt,
     breakPromptIntoSegments,
+    cancelSegmentation,
+    checkSegmentFidelity,
+    attachOrphanedSpan,
     updateSegment,
+    setSegmentsIncluded,
+    deleteSegments,
     reorderSegments,
-    makeConcise,
+    splitSegment,
+    mergeSegments,
+    rewriteSegment,
+    runBatch,
+    cancelBatch,
+    dismissBatch,
+    undoBatch,
+    acceptRewrite,
+    rejectRewrite,
+    restoreRevision,
+    analyzePrompt,
+    dismissFinding,
+    clearAnalysis,
+    addSuggestedSection,
+    undo,
+    redo,
     clearError,
-    saveSession,
-    loadSession,
+    dismissOperation,
+    dismissSegmentOperation,
+    showError,
+    loadProject,
+    defineVariable,
+    updateVariable,
+    removeVariable,
+    setAssembly,
+    takeSnapshot,
+    deleteSnapshot,
+    saveVariant,
+    updateVariant,
+    renameVariant,
+    deleteVariant,
+    applyVariant,
+    addEvalCase,
+    updateEvalCase,
+    removeEvalCase,
     exportOutput
   } = usePromptEditor();
+  const tokenizer = useTokenizer(config);
+  const {
+    projects,
+    activeProjectId,
+    openProject,
+    newProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    importProject,
+    exportProject
+  } = useProjects(state, loadProject, showError);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const { status: queueStatus } = useRequestQueue();
+  // Several requests may be waiting to retry; the banner describes the most recent
+  const retry = queueStatus.retrying[queueStatus.retrying.length - 1];
+  const closeSettings = useCallback(() => setIsSettingsOpen(false), []);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [previewTab, setPreviewTab] = useState<'output' | 'variants' | 'snapshots' | 'playground' | 'evals'>('output');
 
   const [isPromptCollapsed, setIsPromptCollapsed] = useState(false);
   const [hasUserInteracted, setHasUserInteracted] = useState(false);
@@ -42,43 +132,91 @@ const App: React.FC = () => {
     setIsDarkMode(!isDarkMode);
   };
 
-  // Auto-save session periodically
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own native undo
   useEffect(() => {
-    const interval = setInterval(() => {
-      if (state.segments.length > 0) {
-        saveSession();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('textarea, input, [contenteditable="true"]')) {
+        return;
       }
-    }, 30000); // Save every 30 seconds
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
 
-    return () => clearInterval(interval);
-  }, [saveSession, state.segments.length]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
-  // Load session on mount
-  useEffect(() => {
-    const loaded = loadSession();
-    if (loaded) {
-      console.log('Previous session loaded');
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await file.text());
+      await importProject(imported);
+      if (imported.settings.segmentationMode) {
+        setSegmentationMode(imported.settings.segmentationMode);
+      }
+      setIsSidebarOpen(false);
+    } catch (error) {
+      showError(`Could not import "${file.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [loadSession]);
+  };
 
-  // Auto-save when segments change
-  useEffect(() => {
-    if (state.segments.length > 0) {
-      const timeoutId = setTimeout(() => {
-        saveSession();
-      }, 2000); // Debounce saves
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      setIsDraggingFile(true);
+    }
+  };
 
-      return () => clearTimeout(timeoutId);
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFile(false);
     }
-  }, [state.segments, state.originalPrompt, saveSession]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) {
+      return;
+    }
+    e.preventDefault();
+    setIsDraggingFile(false);
+    void handleImportFile(file);
+  };
 
   const hasApiKey = config !== null;
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const lastChange = state.history.past[state.history.past.length - 1];
+  const nextChange = state.history.future[0];
+  const canUndo = Boolean(lastChange) && !state.segmentation;
+  const canUndoBatch = canUndo && Boolean(state.batch?.historyId) && lastChange?.id === state.batch?.historyId;
+  const canRedo = Boolean(nextChange) && !state.segmentation;
   const includedSegments = state.segments.filter(s => s.isIncluded);
+  // What the model sees: the final output with variable values filled in
+  const renderedOutput = renderTemplate(state.finalOutput, state.variables);
+  const segmentationPercent = state.segmentation
+    ? Math.min(99, Math.round((state.segmentation.receivedChars / Math.max(1, state.segmentation.expectedChars)) * 100))
+    : 0;
+
+  const isSegmenting = Boolean(state.operations.break?.isLoading);
+  // A failed segmentation has no segments to show its error on, so it joins the general messages in the header
+  const segmentationError = state.operations.break?.error;
+  const bannerErrors = [
+    ...(state.error ? [{ notice: state.error, onDismiss: clearError }] : []),
+    ...(segmentationError ? [{ notice: segmentationError, onDismiss: () => dismissOperation('break') }] : [])
+  ];
 
   // Auto-collapse prompt after segments are generated, but allow re-opening
   useEffect(() => {
     // Only auto-collapse if user hasn't manually interacted and segments are newly generated
-    if (state.segments.length > 0 && !isPromptCollapsed && !state.isLoading && !hasUserInteracted) {
+    if (state.segments.length > 0 && !isPromptCollapsed && !isSegmenting && !hasUserInteracted) {
       const timeoutId = setTimeout(() => {
         setIsPromptCollapsed(true);
       }, 1000);
@@ -87,7 +225,7 @@ const App: React.FC = () => {
         clearTimeout(timeoutId);
       };
     }
-  }, [state.segments.length, state.isLoading, hasUserInteracted]); // Removed isPromptCollapsed from dependencies
+  }, [state.segments.length, isSegmenting, hasUserInteracted]); // Removed isPromptCollapsed from dependencies
 
   // Reset user interaction flag when prompt changes or is cleared
   useEffect(() => {
@@ -103,7 +241,13 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="app">
+    <div className="app" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+      {isDraggingFile && (
+        <div className="drop-overlay">
+          <div className="drop-overlay-message">Drop a project file to import it</div>
+        </div>
+      )}
+
       <header className="app-header">
         <div className="header-content">
           <div className="app-title">
@@ -116,11 +260,46 @@ const App: React.FC = () => {
                 <span>{includedSegments.length} included</span>
                 <span>•</span>
                 <span>{state.finalOutput.length.toLocaleString()} chars output</span>
+                <span>•</span>
+                <span>{formatTokenCount(tokenizer.countTokens(state.finalOutput), tokenizer.isExact)}</span>
               </div>
             )}
           </div>
           
           <div className="header-actions">
+            <button
+              onClick={() => setIsSidebarOpen(true)}
+              className="project-switcher"
+              title="Switch project"
+            >
+              <FontAwesomeIcon icon={faFolderOpen} />
+              <span className="project-switcher-name">{activeProject?.name ?? 'Projects'}</span>
+            </button>
+            <div className="history-actions">
+              <button
+                onClick={undo}
+                className="history-button"
+                disabled={!canUndo}
+                title={lastChange ? `Undo ${lastChange.label} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                <FontAwesomeIcon icon={faUndo} />
+              </button>
+              <button
+                onClick={redo}
+                className="history-button"
+                disabled={!canRedo}
+                title={nextChange ? `Redo ${nextChange.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                <FontAwesomeIcon icon={faRedo} />
+              </button>
+            </div>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="theme-toggle"
+              title="AI settings: prompts and parameters for the editor's AI operations"
+            >
+              <FontAwesomeIcon icon={faSlidersH} />
+            </button>
             <button
               onClick={toggleTheme}
               className="theme-toggle"
@@ -135,34 +314,85 @@ const App: React.FC = () => {
           </div>
         </div>
         
-        {state.error && (
-          <div className="error-banner">
+        {bannerErrors.map(({ notice, onDismiss }) => (
+          <div key={notice.message} className="error-banner">
             <div className="error-content">
               <FontAwesomeIcon icon={faExclamationTriangle} className="error-icon" />
-              <span className="error-message">{state.error}</span>
-              <button onClick={clearError} className="error-dismiss">
+              <div className="error-text">
+                <span className="error-message">{notice.message}</span>
+                {notice.remediation && <span className="error-remediation">{notice.remediation}</span>}
+              </div>
+              <button onClick={onDismiss} className="error-dismiss">
                 <FontAwesomeIcon icon={faTimes} />
               </button>
             </div>
           </div>
+        ))}
+
+        {retry && (
+          <div className="retry-banner">
+            <div className="loading-content">
+              <FontAwesomeIcon icon={faSyncAlt} className="loading-spinner" spin />
+              <span className="loading-text">
+                {RETRY_REASONS[retry.kind] ?? 'The request failed'}. Retrying in {Math.ceil(retry.delayMs / 1000)} s
+                (attempt {retry.attempt} of {retry.maxAttempts})
+                {queueStatus.retrying.length > 1 && `, ${queueStatus.retrying.length - 1} more waiting to retry`}
+              </span>
+            </div>
+          </div>
         )}
 
-        {state.isLoading && (
+        {isSegmenting && state.segmentation && (
           <div className="loading-banner prominent">
             <div className="loading-content">
               <FontAwesomeIcon icon={faSpinner} className="loading-spinner" spin />
               <div className="loading-text">
-                <span className="loading-main">AI is processing your request...</span>
-                <div className="loading-warning">
-                  <FontAwesomeIcon icon={faExclamationTriangle} className="loading-warning-icon" />
-                  This may take up to 3-5 minutes. Please be patient and don't refresh the page.
+                <span className="loading-main">
+                  Breaking prompt into sections... {state.segmentation.segmentCount} received
+                </span>
+                <div
+                  className="loading-progress"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={segmentationPercent}
+                >
+                  <div className="loading-progress-bar" style={{ width: `${segmentationPercent}%` }} />
+                </div>
+                <div className="loading-hint">
+                  Segments appear below as they arrive. Cancelling keeps the ones already received.
                 </div>
               </div>
+              <button onClick={cancelSegmentation} className="btn-cancel loading-cancel">
+                Cancel
+              </button>
             </div>
           </div>
         )}
       </header>
 
+      <AISettingsPanel isOpen={isSettingsOpen} onClose={closeSettings} />
+
+      <ProjectSidebar
+        projects={projects}
+        activeProjectId={activeProjectId}
+        isOpen={isSidebarOpen}
+        onClose={() => setIsSidebarOpen(false)}
+        onOpen={(id) => {
+          void openProject(id);
+          setIsSidebarOpen(false);
+        }}
+        onCreate={() => {
+          void newProject();
+          setIsSidebarOpen(false);
+        }}
+        onRename={renameProject}
+        onDuplicate={duplicateProject}
+        onDelete={deleteProject}
+        onExport={(id) => void exportProject(id, { segmentationMode })}
+        onImportFile={(file) => void handleImportFile(file)}
+      />
+
       <main className="app-main">
         <div className={`app-layout ${isPromptCollapsed ? 'input-collapsed' : ''}`}>
           <div className={`input-section ${isPromptCollapsed ? 'collapsed' : ''}`}>
@@ -170,8 +400,11 @@ const App: React.FC = () => {
               value={state.originalPrompt}
               onChange={setOriginalPrompt}
               onBreakPrompt={breakPromptIntoSegments}
-              isLoading={state.isLoading}
+              isSegmenting={isSegmenting}
               hasApiKey={hasApiKey}
+              tokenizer={tokenizer}
+              segmentationMode={segmentationMode}
+              onSegmentationModeChange={setSegmentationMode}
               isCollapsed={isPromptCollapsed}
               onToggleCollapse={handleTogglePromptCollapse}
             />
@@ -182,20 +415,142 @@ const App: React.FC = () => {
               segments={state.segments}
               onReorderSegments={reorderSegments}
               onUpdateSegment={updateSegment}
-              onMakeConcise={makeConcise}
-              isLoading={state.isLoading}
+              onSplitSegment={splitSegment}
+              onMergeSegments={mergeSegments}
+              onSetIncluded={setSegmentsIncluded}
+              onDeleteSegments={deleteSegments}
+              onRewrite={rewriteSegment}
+              onAcceptRewrite={acceptRewrite}
+              onRejectRewrite={rejectRewrite}
+              rewrites={state.rewrites}
+              operations={state.operations}
+              segmentOperations={state.segmentOperations}
+              onDismissOperation={dismissOperation}
+              onDismissSegmentOperation={dismissSegmentOperation}
+              batch={state.batch}
+              canUndoBatch={canUndoBatch}
+              onRunBatch={runBatch}
+              onCancelBatch={cancelBatch}
+              onUndoBatch={undoBatch}
+              onDismissBatch={dismissBatch}
               hasApiKey={hasApiKey}
+              tokenizer={tokenizer}
+              originalPrompt={state.originalPrompt}
+              fidelity={state.fidelity}
+              onAttachOrphan={attachOrphanedSpan}
+              onRecheckFidelity={checkSegmentFidelity}
+              analysis={state.analysis}
+              onAnalyze={analyzePrompt}
+              onDismissFinding={dismissFinding}
+              onClearAnalysis={clearAnalysis}
+              onAddSection={addSuggestedSection}
+              revisions={state.revisions}
+              onRestoreRevision={restoreRevision}
             />
           </div>
 
           <div className="preview-section">
-            <PreviewPanel
-              finalOutput={state.finalOutput}
-              onExportOutput={exportOutput}
-              isLoading={state.isLoading}
-              hasApiKey={hasApiKey}
-              segmentCount={includedSegments.length}
-            />
+            {state.segments.length > 0 && (
+              <VariablesPanel
+                segments={state.segments}
+                variables={state.variables}
+                onDefine={defineVariable}
+                onUpdate={updateVariable}
+                onRemove={removeVariable}
+              />
+            )}
+            <div className="section-tabs">
+              <button
+                className={previewTab === 'output' ? 'active' : ''}
+                onClick={() => setPreviewTab('output')}
+              >
+                Output
+              </button>
+              <button
+                className={previewTab === 'variants' ? 'active' : ''}
+                onClick={() => setPreviewTab('variants')}
+              >
+                Variants
+              </button>
+              <button
+                className={previewTab === 'snapshots' ? 'active' : ''}
+                onClick={() => setPreviewTab('snapshots')}
+              >
+                Snapshots
+              </button>
+              <button
+                className={previewTab === 'playground' ? 'active' : ''}
+                onClick={() => setPreviewTab('playground')}
+              >
+                Playground
+              </button>
+              <button
+                className={previewTab === 'evals' ? 'active' : ''}
+                onClick={() => setPreviewTab('evals')}
+              >
+                Evals
+              </button>
+            </div>
+            {/* All five tabs stay mounted and are only hidden, so switching tabs keeps the playground
+                transcript, variant replies, snapshot comparison and eval results, and lets a running
+                chat or eval run finish */}
+            <div className="section-tab-panel" hidden={previewTab !== 'output'}>
+              <PreviewPanel
+                finalOutput={state.finalOutput}
+                variables={state.variables}
+                onExportOutput={exportOutput}
+                hasApiKey={hasApiKey}
+                segmentCount={includedSegments.length}
+                tokenizer={tokenizer}
+                assembly={state.assembly}
+                onAssemblyChange={setAssembly}
+              />
+            </div>
+            <div className="section-tab-panel" hidden={previewTab !== 'variants'}>
+              <VariantsPanel
+                key={activeProjectId ?? 'none'}
+                segments={state.segments}
+                variants={state.variants}
+                variables={state.variables}
+                hasApiKey={hasApiKey}
+                tokenizer={tokenizer}
+                assembly={state.assembly}
+                onSave={saveVariant}
+                onUpdate={updateVariant}
+                onRename={renameVariant}
+                onDelete={deleteVariant}
+                onApply={applyVariant}
+              />
+            </div>
+            <div className="section-tab-panel" hidden={previewTab !== 'snapshots'}>
+              <SnapshotsPanel
+                key={activeProjectId ?? 'none'}
+                snapshots={state.snapshots}
+                currentOutput={state.finalOutput}
+                tokenizer={tokenizer}
+                onTake={takeSnapshot}
+                onDelete={deleteSnapshot}
+              />
+            </div>
+            <div className="section-tab-panel" hidden={previewTab !== 'playground'}>
+              <PlaygroundPanel
+                key={activeProjectId ?? 'none'}
+                systemPrompt={renderedOutput}
+                hasApiKey={hasApiKey}
+                tokenizer={tokenizer}
+              />
+            </div>
+            <div className="section-tab-panel" hidden={previewTab !== 'evals'}>
+              <EvalPanel
+                key={activeProjectId ?? 'none'}
+                systemPrompt={renderedOutput}
+                cases={state.evalCases}
+                hasApiKey={hasApiKey}
+                onAdd={addEvalCase}
+                onUpdate={updateEvalCase}
+                onRemove={removeEvalCase}
+              />
+            </div>
           </div>
         </div>
       </main>
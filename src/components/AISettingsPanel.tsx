@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes, faUndo, faSave, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { CacheManager } from './CacheManager';
+import { RequestSettingsEditor } from './RequestSettingsEditor';
+import { useAISettings } from '../hooks/useAISettings';
+import { AI_OPERATION_IDS, DEFAULT_AI_SETTINGS } from '../services/aiSettings';
+import { REWRITE_OPERATIONS } from '../services/openai';
+import type { AIOperationId, RewriteOperation } from '../types';
+
+interface AISettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const operationLabel = (id: string) => {
+  if (id === 'break') return 'Break into segments';
+  if (id === 'retitle') return 'Retitle segments';
+  if (id === 'analyze') return 'Analyze prompt';
+  if (id === 'judge') return 'Grade eval rubrics';
+  return REWRITE_OPERATIONS[id as RewriteOperation].label;
+};
+
+const OPERATION_NOTES: Partial<Record<AIOperationId, string>> = {
+  break: 'The reply must stay a JSON array of objects with "title" and "content" fields.',
+  retitle: 'The first line of the reply becomes the title.',
+  analyze: 'The reply must stay a JSON object with a "findings" array in the format shown.',
+  judge: 'The reply must end with a line that is exactly VERDICT: PASS or VERDICT: FAIL.'
+};
+
+export const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ isOpen, onClose }) => {
+  const {
+    overrides,
+    presets,
+    updateOperation,
+    resetOperation,
+    resetAll,
+    savePreset,
+    applyPreset,
+    deletePreset
+  } = useAISettings();
+  const [selectedId, setSelectedId] = useState<AIOperationId>('break');
+  // The request limits and the cache manager replace the operation editor while open
+  const [page, setPage] = useState<'operation' | 'requests' | 'cache'>('operation');
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const defaults = DEFAULT_AI_SETTINGS[selectedId];
+  const settings = { ...defaults, ...overrides[selectedId] };
+  const isCustomized = Object.keys(overrides).length > 0;
+
+  const handleTemperature = (value: string) => {
+    const temperature = Number(value);
+    if (value !== '' && Number.isFinite(temperature)) {
+      updateOperation(selectedId, { temperature: Math.min(2, Math.max(0, temperature)) });
+    }
+  };
+
+  const handleMaxTokens = (value: string) => {
+    const maxTokens = Math.floor(Number(value));
+    updateOperation(selectedId, { maxTokens: value === '' || !(maxTokens > 0) ? null : maxTokens });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim() || `Preset ${presets.length + 1}`;
+    savePreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset && window.confirm(`Delete preset "${preset.name}"?`)) {
+      deletePreset(preset.id);
+      setPresetId('');
+    }
+  };
+
+  const handleResetAll = () => {
+    if (window.confirm('Reset every AI operation to its default prompt and parameters?')) {
+      resetAll();
+    }
+  };
+
+  return (
+    <div className="settings-backdrop" onClick={onClose}>
+      <div className="settings-dialog" role="dialog" aria-label="AI settings" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>AI Settings</h2>
+          <div className="settings-presets">
+            <select value={presetId} onChange={(e) => setPresetId(e.target.value)} title="Saved presets">
+              <option value="">Presets...</option>
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            <button onClick={() => applyPreset(presetId)} disabled={!presetId} title="Replace the current settings with this preset">
+              Apply
+            </button>
+            <button onClick={handleDeletePreset} disabled={!presetId} title="Delete preset">
+              <FontAwesomeIcon icon={faTrash} />
+            </button>
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder={`Preset ${presets.length + 1}`}
+            />
+            <button onClick={handleSavePreset} title="Save the current settings as a preset">
+              <FontAwesomeIcon icon={faSave} /> Save preset
+            </button>
+          </div>
+          <button onClick={onClose} className="btn-close-settings" title="Close (Esc)">
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+
+        <div className="settings-body">
+          <ul className="settings-operations">
+            {AI_OPERATION_IDS.map(id => (
+              <li
+                key={id}
+                className={`settings-operation ${id === selectedId && page === 'operation' ? 'active' : ''}`}
+                onClick={() => {
+                  setSelectedId(id);
+                  setPage('operation');
+                }}
+              >
+                {operationLabel(id)}
+                {overrides[id] && <span className="settings-customized" title="Changed from the default">●</span>}
+              </li>
+            ))}
+            <li className="settings-reset-all">
+              <button onClick={handleResetAll} disabled={!isCustomized}>
+                <FontAwesomeIcon icon={faUndo} /> Reset all
+              </button>
+            </li>
+            <li
+              className={`settings-operation settings-requests ${page === 'requests' ? 'active' : ''}`}
+              onClick={() => setPage('requests')}
+            >
+              Requests
+            </li>
+            <li
+              className={`settings-operation ${page === 'cache' ? 'active' : ''}`}
+              onClick={() => setPage('cache')}
+            >
+              Response cache
+            </li>
+          </ul>
+
+          {page === 'requests' ? (
+            <RequestSettingsEditor />
+          ) : page === 'cache' ? (
+            <CacheManager operationLabel={operationLabel} />
+          ) : (
+            <div className="settings-editor">
+              <div className="settings-editor-header">
+                <h3>{operationLabel(selectedId)}</h3>
+                <button onClick={() => resetOperation(selectedId)} disabled={!overrides[selectedId]} title="Restore the default prompt and parameters">
+                  <FontAwesomeIcon icon={faUndo} /> Reset to default
+                </button>
+              </div>
+
+              <label htmlFor="settings-system-prompt">System prompt</label>
+              <textarea
+                id="settings-system-prompt"
+                value={settings.systemPrompt}
+                onChange={(e) => updateOperation(selectedId, { systemPrompt: e.target.value })}
+                rows={16}
+              />
+              {OPERATION_NOTES[selectedId] && <p className="settings-note">{OPERATION_NOTES[selectedId]}</p>}
+
+              <div className="settings-params">
+                <div className="form-group">
+                  <label htmlFor="settings-temperature">Temperature</label>
+                  <input
+                    id="settings-temperature"
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={settings.temperature}
+                    onChange={(e) => handleTemperature(e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="settings-max-tokens">Max output tokens</label>
+                  <input
+                    id="settings-max-tokens"
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={settings.maxTokens ?? ''}
+                    onChange={(e) => handleMaxTokens(e.target.value)}
+                    placeholder="Provider default"
+                  />
+                </div>
+              </div>
+              <p className="settings-note">
+                Reasoning models ignore the temperature{selectedId === 'break' && ' and the output limit'}.
+                Changes apply to the next request.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faCheckCircle,
+  faExclamationTriangle,
+  faChevronDown,
+  faChevronUp,
+  faPlus,
+  faSyncAlt,
+  faTimes
+} from '@fortawesome/free-solid-svg-icons';
+import type { PromptSegment } from './PromptSegment';
+import type { AnalysisFindingKind, PromptAnalysis } from '../types';
+import { FINDING_KIND_LABELS, isFindingStale } from '../utils/analysis';
+
+interface AnalysisPanelProps {
+  analysis: PromptAnalysis;
+  segments: PromptSegment[];
+  isLoading: boolean;
+  hasApiKey: boolean;
+  onReanalyze: () => void;
+  onClear: () => void;
+  onDismiss: (id: string) => void;
+  onAddSection: (id: string) => void;
+}
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  analysis,
+  segments,
+  isLoading,
+  hasApiKey,
+  onReanalyze,
+  onClear,
+  onDismiss,
+  onAddSection
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const { findings } = analysis;
+  const counts = findings.reduce<Partial<Record<AnalysisFindingKind, number>>>((acc, finding) => {
+    acc[finding.kind] = (acc[finding.kind] ?? 0) + 1;
+    return acc;
+  }, {});
+  const staleCount = findings.filter(f => isFindingStale(f, analysis, segments)).length;
+  // Findings about a segment are shown on it; the rest, usually missing sections, are listed here
+  const unpinned = findings.filter(f => f.segmentIds.length === 0);
+  const pinnedCount = findings.length - unpinned.length;
+  const hasFindings = findings.length > 0;
+
+  return (
+    <div className={`analysis-panel ${hasFindings ? 'has-issues' : 'clean'}`}>
+      <div className="fidelity-header">
+        <FontAwesomeIcon
+          icon={hasFindings ? faExclamationTriangle : faCheckCircle}
+          className="fidelity-icon"
+        />
+        <span className="fidelity-summary">
+          {hasFindings
+            ? (Object.keys(counts) as AnalysisFindingKind[])
+              .map(kind => `${counts[kind]} ${FINDING_KIND_LABELS[kind].toLowerCase()}`)
+              .join(' · ')
+            : 'No problems found'}
+        </span>
+        {staleCount > 0 && (
+          <span className="analysis-stale" title="Segments changed since the analysis">
+            {staleCount} out of date
+          </span>
+        )}
+        <button
+          onClick={onReanalyze}
+          disabled={!hasApiKey || isLoading}
+          className="btn-toggle"
+          title="Analyze the included segments again"
+        >
+          <FontAwesomeIcon icon={faSyncAlt} />
+        </button>
+        <button onClick={onClear} className="btn-toggle" title="Clear the analysis">
+          <FontAwesomeIcon icon={faTimes} />
+        </button>
+        {unpinned.length > 0 && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="btn-toggle"
+            title={isExpanded ? 'Hide details' : 'Show details'}
+          >
+            <FontAwesomeIcon icon={isExpanded ? faChevronUp : faChevronDown} />
+          </button>
+        )}
+      </div>
+
+      {pinnedCount > 0 && (
+        <div className="analysis-hint">
+          {pinnedCount === 1 ? '1 finding is' : `${pinnedCount} findings are`} shown on the segments involved.
+        </div>
+      )}
+
+      {unpinned.length > 0 && isExpanded && (
+        <ul className="fidelity-issues">
+          {unpinned.map(finding => (
+            <li key={finding.id} className="fidelity-issue">
+              <div className="fidelity-issue-header">
+                <span className={`analysis-kind ${finding.kind}`}>{FINDING_KIND_LABELS[finding.kind]}</span>
+                <span className="analysis-summary">{finding.summary}</span>
+                {finding.section && (
+                  <button
+                    onClick={() => onAddSection(finding.id)}
+                    className="btn-attach"
+                    title="Add the proposed section as a new segment at the end"
+                  >
+                    <FontAwesomeIcon icon={faPlus} />
+                    Add "{finding.section.title}"
+                  </button>
+                )}
+                <button onClick={() => onDismiss(finding.id)} className="btn-dismiss-finding" title="Dismiss">
+                  <FontAwesomeIcon icon={faTimes} />
+                </button>
+              </div>
+              {finding.section ? (
+                <div className="fidelity-issue-text">
+                  <ins>{finding.section.content}</ins>
+                </div>
+              ) : (
+                <div className="analysis-suggestion">{finding.suggestion}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
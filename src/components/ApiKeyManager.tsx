@@ -1,65 +1,121 @@
-import React, { useState, useEffect } from 'react';
-
-export interface OpenAIConfig {
-  apiKey: string;
-  model: 'gpt-5-mini' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
-}
+import React, { useState, useEffect, useCallback } from 'react';
+import type { OpenAIConfig, ProviderId } from '../types';
+import { PROVIDERS, DEFAULT_AZURE_API_VERSION } from '../services/providers';
 
 interface ApiKeyManagerProps {
   onConfigChange: (config: OpenAIConfig | null) => void;
   currentConfig: OpenAIConfig | null;
 }
 
+const PROVIDER_STORAGE_KEY = 'llm-provider';
+
+// Credentials are stored per provider so switching back and forth keeps each one's key
+const loadCredentials = (provider: ProviderId): OpenAIConfig => ({
+  provider,
+  apiKey: localStorage.getItem(`${provider}-api-key`) || '',
+  model: localStorage.getItem(`${provider}-model`) || PROVIDERS[provider].defaultModel,
+  baseUrl: localStorage.getItem(`${provider}-base-url`) || '',
+  apiVersion: localStorage.getItem(`${provider}-api-version`) || ''
+});
+
+const saveCredentials = (config: OpenAIConfig) => {
+  const entries: [string, string | undefined][] = [
+    ['api-key', config.apiKey],
+    ['model', config.model],
+    ['base-url', config.baseUrl],
+    ['api-version', config.apiVersion]
+  ];
+  entries.forEach(([name, value]) => {
+    if (value) {
+      localStorage.setItem(`${config.provider}-${name}`, value);
+    } else {
+      localStorage.removeItem(`${config.provider}-${name}`);
+    }
+  });
+  localStorage.setItem(PROVIDER_STORAGE_KEY, config.provider);
+};
+
+const clearCredentials = (provider: ProviderId) => {
+  ['api-key', 'model', 'base-url', 'api-version'].forEach(name => {
+    localStorage.removeItem(`${provider}-${name}`);
+  });
+};
+
+const isComplete = (config: OpenAIConfig) => {
+  const info = PROVIDERS[config.provider];
+  return (!info.requiresApiKey || config.apiKey.length > 0)
+    && (config.provider !== 'azure' || !!config.baseUrl)
+    && config.model.length > 0;
+};
+
 export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ onConfigChange, currentConfig }) => {
+  const [provider, setProvider] = useState<ProviderId>('openai');
   const [apiKey, setApiKey] = useState('');
-  const [model, setModel] = useState<OpenAIConfig['model']>('gpt-5-mini');
+  const [model, setModel] = useState(PROVIDERS.openai.defaultModel);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiVersion, setApiVersion] = useState('');
   const [isVisible, setIsVisible] = useState(false);
   const [showKey, setShowKey] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
 
+  const applyToForm = useCallback((config: OpenAIConfig) => {
+    setProvider(config.provider);
+    setApiKey(config.apiKey);
+    setModel(config.model);
+    setBaseUrl(config.baseUrl || '');
+    setApiVersion(config.apiVersion || '');
+  }, []);
+
   useEffect(() => {
     // Load from localStorage on mount
-    const savedKey = localStorage.getItem('openai-api-key');
-    const savedModel = localStorage.getItem('openai-model') as OpenAIConfig['model'];
-    
-    if (savedKey) {
-      setApiKey(savedKey);
-      const config: OpenAIConfig = {
-        apiKey: savedKey,
-        model: savedModel || 'gpt-5-mini'
-      };
-      setModel(config.model);
+    const savedProvider = (localStorage.getItem(PROVIDER_STORAGE_KEY) as ProviderId | null) || 'openai';
+    const config = loadCredentials(PROVIDERS[savedProvider] ? savedProvider : 'openai');
+    applyToForm(config);
+
+    if (isComplete(config)) {
       onConfigChange(config);
     } else {
-      setIsVisible(true); // Show the setup if no API key is saved
+      setIsVisible(true); // Show the setup if the provider isn't configured yet
     }
-  }, [onConfigChange]);
+  }, [onConfigChange, applyToForm]);
 
-  const handleSave = () => {
-    if (!apiKey.trim()) {
-      alert('Please enter a valid API key');
-      return;
-    }
+  const handleProviderChange = (next: ProviderId) => {
+    applyToForm(loadCredentials(next));
+  };
 
+  const handleSave = () => {
     const config: OpenAIConfig = {
+      provider,
       apiKey: apiKey.trim(),
-      model
+      model: model.trim(),
+      baseUrl: baseUrl.trim() || undefined,
+      apiVersion: provider === 'azure' ? (apiVersion.trim() || undefined) : undefined
     };
 
+    if (PROVIDERS[provider].requiresApiKey && !config.apiKey) {
+      alert('Please enter a valid API key');
+      return;
+    }
+    if (provider === 'azure' && !config.baseUrl) {
+      alert('Please enter your Azure OpenAI endpoint');
+      return;
+    }
+    if (!config.model) {
+      alert(provider === 'azure' ? 'Please enter a deployment name' : 'Please enter a model');
+      return;
+    }
+
     // Save to localStorage
-    localStorage.setItem('openai-api-key', config.apiKey);
-    localStorage.setItem('openai-model', config.model);
-    
+    saveCredentials(config);
+
     onConfigChange(config);
     setIsVisible(false);
     setIsEditMode(false);
   };
 
   const handleClear = () => {
-    localStorage.removeItem('openai-api-key');
-    localStorage.removeItem('openai-model');
-    setApiKey('');
-    setModel('gpt-5-mini');
+    clearCredentials(provider);
+    applyToForm(loadCredentials(provider));
     onConfigChange(null);
     setIsVisible(true);
     setIsEditMode(false);
@@ -70,15 +126,18 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ onConfigChange, cu
     return key.slice(0, 4) + '...' + key.slice(-4);
   };
 
+  const providerInfo = PROVIDERS[provider];
+
   return (
     <div className="api-key-manager">
       {!isVisible && currentConfig ? (
         <div className="api-key-status">
           <div className="api-status-indicator">
             <span className="api-status-text">API Ready</span>
+            <span className="api-provider-badge">{PROVIDERS[currentConfig.provider].label}</span>
             <span className="api-model-badge">{currentConfig.model}</span>
           </div>
-          {isEditMode && (
+          {isEditMode && currentConfig.apiKey && (
             <div className="key-details">
               <span className="key-value">
                 {showKey ? currentConfig.apiKey : maskApiKey(currentConfig.apiKey)}
@@ -115,41 +174,92 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ onConfigChange, cu
         </div>
       ) : (
         <div className="api-key-setup">
-          <h3>OpenAI API Configuration</h3>
-          <p>Enter your OpenAI API key to use the prompt editing features.</p>
-          
-          <div className="form-group">
-            <label htmlFor="api-key">API Key:</label>
-            <input
-              id="api-key"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="sk-..."
-              className="api-key-input"
-            />
-          </div>
+          <h3>AI Provider Configuration</h3>
+          <p>Choose a provider and enter its credentials to use the prompt editing features.</p>
 
           <div className="form-group">
-            <label htmlFor="model-select">Model:</label>
+            <label htmlFor="provider-select">Provider:</label>
             <select
-              id="model-select"
-              value={model}
-              onChange={(e) => setModel(e.target.value as OpenAIConfig['model'])}
+              id="provider-select"
+              value={provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
               className="model-select"
             >
-              <option value="gpt-5-mini">GPT-5 Mini (Latest)</option>
-              <option value="gpt-4o-mini">GPT-4 Mini</option>
-              <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
+              {Object.values(PROVIDERS).map(info => (
+                <option key={info.id} value={info.id}>{info.label}</option>
+              ))}
             </select>
           </div>
 
+          {providerInfo.requiresApiKey && (
+            <div className="form-group">
+              <label htmlFor="api-key">API Key:</label>
+              <input
+                id="api-key"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={provider === 'anthropic' ? 'sk-ant-...' : 'sk-...'}
+                className="api-key-input"
+              />
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="model-input">{provider === 'azure' ? 'Deployment:' : 'Model:'}</label>
+            <input
+              id="model-input"
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={provider === 'azure' ? 'my-gpt-4o-deployment' : providerInfo.defaultModel}
+              className="model-select"
+              list="model-suggestions"
+            />
+            <datalist id="model-suggestions">
+              {providerInfo.suggestedModels.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+
+          {provider !== 'mock' && (
+            <div className="form-group">
+              <label htmlFor="base-url">
+                {provider === 'azure' ? 'Endpoint:' : 'Base URL (optional):'}
+              </label>
+              <input
+                id="base-url"
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={providerInfo.baseUrlPlaceholder}
+                className="api-key-input"
+              />
+            </div>
+          )}
+
+          {provider === 'azure' && (
+            <div className="form-group">
+              <label htmlFor="api-version">API Version:</label>
+              <input
+                id="api-version"
+                type="text"
+                value={apiVersion}
+                onChange={(e) => setApiVersion(e.target.value)}
+                placeholder={DEFAULT_AZURE_API_VERSION}
+                className="api-key-input"
+              />
+            </div>
+          )}
+
           <div className="form-actions">
             <button onClick={handleSave} className="btn-save">
               Save Configuration
             </button>
             {currentConfig && (
               <button onClick={() => {
+                applyToForm(currentConfig);
                 setIsVisible(false);
                 setIsEditMode(false);
               }} className="btn-cancel">
@@ -160,11 +270,11 @@ export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ onConfigChange, cu
 
           <div className="security-note">
             <small>
-              Security: Your API key is stored securely in your browser's local storage and never sent to our servers.
+              Security: Your credentials are stored in your browser's local storage and sent only to the provider you choose.
             </small>
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
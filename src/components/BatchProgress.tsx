@@ -0,0 +1,95 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faTimes, faUndo } from '@fortawesome/free-solid-svg-icons';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import type { BatchRun } from '../types';
+import { formatTokenCount } from '../services/tokenizer';
+
+interface BatchProgressProps {
+  batch: BatchRun;
+  tokenizer: Tokenizer;
+  // Whether the batch is still the latest undoable step
+  canUndo: boolean;
+  onCancel: () => void;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const sumTokens = (tokenizer: Tokenizer, texts: string[]) =>
+  texts.reduce((sum, text) => sum + tokenizer.countTokens(text), 0);
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({
+  batch,
+  tokenizer,
+  canUndo,
+  onCancel,
+  onUndo,
+  onDismiss
+}) => {
+  const total = batch.segmentIds.length;
+  const finished = batch.completed + batch.failed;
+  const percent = Math.round((finished / Math.max(1, total)) * 100);
+
+  if (batch.status === 'running') {
+    return (
+      <div className="batch-progress">
+        <div className="batch-progress-header">
+          <FontAwesomeIcon icon={faSpinner} spin />
+          <span className="batch-progress-summary">
+            {batch.label}: {finished} of {total} done
+            {batch.failed > 0 && ` · ${batch.failed} failed`}
+          </span>
+          <button onClick={onCancel} className="btn-cancel" title="Stop the remaining requests and apply what has come back">
+            Cancel
+          </button>
+        </div>
+        <div className="loading-progress" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+          <div className="loading-progress-bar" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  // Totals cover only the segments the results were applied to
+  const appliedIds = Object.keys(batch.after);
+  const skipped = total - appliedIds.length - batch.failed;
+  const beforeTokens = sumTokens(tokenizer, appliedIds.map(id => batch.before[id]));
+  const afterTokens = sumTokens(tokenizer, appliedIds.map(id => batch.after[id]));
+  const tokenDelta = afterTokens - beforeTokens;
+
+  return (
+    <div className="batch-progress done">
+      <div className="batch-progress-header">
+        <span className="batch-progress-summary">
+          {batch.label}: {appliedIds.length} changed
+          {batch.failed > 0 && ` · ${batch.failed} failed`}
+          {skipped > 0 && ` · ${skipped} ${batch.status === 'cancelled' ? 'cancelled or unchanged' : 'unchanged'}`}
+        </span>
+        {canUndo && (
+          <button onClick={onUndo} title="Undo every change this batch made">
+            <FontAwesomeIcon icon={faUndo} /> Undo batch
+          </button>
+        )}
+        <button onClick={onDismiss} className="btn-toggle" title="Dismiss">
+          <FontAwesomeIcon icon={faTimes} />
+        </button>
+      </div>
+      {appliedIds.length > 0 && (batch.action === 'retitle' ? (
+        <ul className="batch-titles">
+          {appliedIds.map(id => (
+            <li key={id}>
+              <span className="batch-title-before">{batch.before[id]}</span> → {batch.after[id]}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="batch-totals">
+          {formatTokenCount(beforeTokens, tokenizer.isExact)} → {formatTokenCount(afterTokens, tokenizer.isExact)}
+          <span className={`token-delta ${tokenDelta > 0 ? 'up' : tokenDelta < 0 ? 'down' : ''}`}>
+            {tokenDelta === 0 ? 'same token count' : `${tokenDelta > 0 ? '+' : '−'}${Math.abs(tokenDelta).toLocaleString()} tokens`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
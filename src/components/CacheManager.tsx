@@ -0,0 +1,99 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSyncAlt, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { useResponseCache } from '../hooks/useResponseCache';
+import { MAX_CACHE_BYTES } from '../services/responseCache';
+
+interface CacheManagerProps {
+  operationLabel: (operation: string) => string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+export const CacheManager: React.FC<CacheManagerProps> = ({ operationLabel }) => {
+  const { entries, totalSize, isBypassed, error, refresh, remove, clear, setBypassed } = useResponseCache();
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${entries.length} cached replies?`)) {
+      void clear();
+    }
+  };
+
+  return (
+    <div className="cache-manager">
+      <div className="settings-editor-header">
+        <h3>Response cache</h3>
+        <div className="cache-actions">
+          <button onClick={() => void refresh()} title="Reload the list">
+            <FontAwesomeIcon icon={faSyncAlt} /> Refresh
+          </button>
+          <button onClick={handleClear} disabled={entries.length === 0}>
+            <FontAwesomeIcon icon={faTrash} /> Clear all
+          </button>
+        </div>
+      </div>
+
+      <p className="settings-note">
+        Segmentation, rewrites and analyses are answered from here when the same input is sent with the same
+        provider, endpoint, model, system prompt and parameters. {entries.length} {entries.length === 1 ? 'entry' : 'entries'} using{' '}
+        {formatBytes(totalSize)} of {formatBytes(MAX_CACHE_BYTES)}; the least recently used are removed past that.
+      </p>
+
+      <label className="cache-bypass">
+        <input type="checkbox" checked={isBypassed} onChange={(e) => setBypassed(e.target.checked)} />
+        Bypass the cache: always ask the model (fresh replies are still saved)
+      </label>
+
+      {error && <p className="cache-error">{error}</p>}
+
+      {entries.length > 0 && (
+        <table className="cache-table">
+          <thead>
+            <tr>
+              <th>Operation</th>
+              <th>Input</th>
+              <th>Size</th>
+              <th>Created</th>
+              <th>Last used</th>
+              <th>Hits</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.key}>
+                <td>
+                  {operationLabel(entry.operation)}
+                  <div className="cache-model">{entry.model}</div>
+                </td>
+                <td className="cache-preview" title={entry.preview}>{entry.preview}</td>
+                <td>{formatBytes(entry.size)}</td>
+                <td>{formatAge(entry.createdAt)}</td>
+                <td>{formatAge(entry.lastUsedAt)}</td>
+                <td>{entry.hits}</td>
+                <td>
+                  <button onClick={() => void remove(entry.key)} title="Remove this entry">
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
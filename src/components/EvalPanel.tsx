@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faPlay,
+  faStop,
+  faPlus,
+  faTrash,
+  faCheck,
+  faTimes,
+  faSpinner,
+  faChevronDown,
+  faChevronUp
+} from '@fortawesome/free-solid-svg-icons';
+import { useEvaluations, isStale, type CaseResult } from '../hooks/useEvaluations';
+import type { AssertionType, EvalAssertion, EvalCase } from '../types';
+import { ASSERTION_LABELS, createAssertion } from '../utils/evaluation';
+
+interface EvalPanelProps {
+  systemPrompt: string;
+  cases: EvalCase[];
+  hasApiKey: boolean;
+  onAdd: () => void;
+  onUpdate: (id: string, updates: Partial<EvalCase>) => void;
+  onRemove: (id: string) => void;
+}
+
+const VALUE_PLACEHOLDERS: Record<AssertionType, string> = {
+  'contains': 'Text the reply must include',
+  'not-contains': 'Text the reply must not include',
+  'regex': '/^Hello/i',
+  'json-schema': '{ "type": "object", "required": ["answer"] }',
+  'max-length': '500',
+  'rubric': 'The reply politely declines and points to the refund policy'
+};
+
+type CaseStatus = 'pass' | 'fail' | 'error' | 'running' | 'stopped' | 'not-run';
+
+const statusOf = (testCase: EvalCase, result: CaseResult | undefined): CaseStatus => {
+  if (!result) return 'not-run';
+  if (result.status === 'running') return 'running';
+  if (result.status === 'error') return 'error';
+  if (result.status === 'stopped') return 'stopped';
+  const outcomes = testCase.assertions.map(a => result.assertions[a.id]);
+  return outcomes.every(outcome => outcome?.passed) ? 'pass' : 'fail';
+};
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  'pass': 'Pass',
+  'fail': 'Fail',
+  'error': 'Error',
+  'running': 'Running',
+  'stopped': 'Stopped',
+  'not-run': 'Not run'
+};
+
+export const EvalPanel: React.FC<EvalPanelProps> = ({
+  systemPrompt,
+  cases,
+  hasApiKey,
+  onAdd,
+  onUpdate,
+  onRemove
+}) => {
+  const { results, isRunning, autoRun, setAutoRun, run, stop } = useEvaluations(systemPrompt, cases);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const statuses = cases.map(testCase => statusOf(testCase, results[testCase.id]));
+  const passed = statuses.filter(status => status === 'pass').length;
+  const ran = statuses.filter(status => status !== 'not-run').length;
+  const staleCount = cases.filter(c => results[c.id] && isStale(results[c.id], c, systemPrompt)).length;
+
+  const updateAssertion = (testCase: EvalCase, id: string, updates: Partial<EvalAssertion>) => {
+    onUpdate(testCase.id, {
+      assertions: testCase.assertions.map(a => (a.id === id ? { ...a, ...updates } : a))
+    });
+  };
+
+  const addAssertion = (testCase: EvalCase, type: AssertionType) => {
+    onUpdate(testCase.id, { assertions: [...testCase.assertions, createAssertion(type)] });
+  };
+
+  const removeAssertion = (testCase: EvalCase, id: string) => {
+    onUpdate(testCase.id, { assertions: testCase.assertions.filter(a => a.id !== id) });
+  };
+
+  const handleRemove = (testCase: EvalCase) => {
+    if (window.confirm(`Delete test "${testCase.name}"?`)) {
+      onRemove(testCase.id);
+    }
+  };
+
+  return (
+    <div className="eval-panel">
+      <div className="eval-header">
+        <h2>Evals</h2>
+        {ran > 0 && (
+          <span className={`eval-summary ${passed === ran ? 'pass' : 'fail'}`}>
+            {passed}/{ran} passed
+            {staleCount > 0 && <span className="eval-stale"> · {staleCount} out of date</span>}
+          </span>
+        )}
+        <div className="eval-actions">
+          <label className="eval-auto-run" title="Re-run out-of-date tests after the prompt changes">
+            <input type="checkbox" checked={autoRun} onChange={(e) => setAutoRun(e.target.checked)} />
+            Auto-run
+          </label>
+          {isRunning ? (
+            <button onClick={stop} className="btn-stop">
+              <FontAwesomeIcon icon={faStop} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => void run()}
+              className="btn-run"
+              disabled={!hasApiKey || !systemPrompt.trim() || cases.length === 0}
+              title="Run every test against the current prompt"
+            >
+              <FontAwesomeIcon icon={faPlay} /> Run all
+            </button>
+          )}
+          <button onClick={onAdd} title="Add a test">
+            <FontAwesomeIcon icon={faPlus} /> Test
+          </button>
+        </div>
+      </div>
+
+      {!hasApiKey && (
+        <div className="playground-hint">Configure an AI provider, or choose Mock (offline), to run tests.</div>
+      )}
+
+      {cases.length === 0 ? (
+        <p className="eval-empty">
+          Add tests with an input and the checks its reply must pass, then re-run them after each edit to catch regressions.
+        </p>
+      ) : (
+        <div className="eval-grid">
+          {cases.map((testCase, index) => {
+            const result = results[testCase.id];
+            const status = statuses[index];
+            const isExpanded = expandedId === testCase.id;
+            const stale = result && isStale(result, testCase, systemPrompt);
+            return (
+              <div key={testCase.id} className={`eval-case ${isExpanded ? 'expanded' : ''}`}>
+                <div className="eval-case-row" onClick={() => setExpandedId(isExpanded ? null : testCase.id)}>
+                  <span className={`eval-status ${status}`}>
+                    {status === 'running' ? <FontAwesomeIcon icon={faSpinner} spin /> : STATUS_LABELS[status]}
+                  </span>
+                  <span className="eval-case-name">
+                    {testCase.name}
+                    {stale && status !== 'running' && <span className="eval-stale"> · out of date</span>}
+                  </span>
+                  <span className="eval-assertion-cells">
+                    {testCase.assertions.map(assertion => {
+                      const outcome = result?.assertions[assertion.id];
+                      return (
+                        <span
+                          key={assertion.id}
+                          className={`eval-cell ${outcome ? (outcome.passed ? 'pass' : 'fail') : ''}`}
+                          title={`${ASSERTION_LABELS[assertion.type]}: ${outcome?.detail ?? 'not checked'}`}
+                        >
+                          {outcome ? <FontAwesomeIcon icon={outcome.passed ? faCheck : faTimes} /> : '·'}
+                        </span>
+                      );
+                    })}
+                  </span>
+                  <div className="eval-case-actions" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => void run([testCase.id])}
+                      disabled={isRunning || !hasApiKey || !testCase.input.trim() || !systemPrompt.trim()}
+                      title="Run this test"
+                    >
+                      <FontAwesomeIcon icon={faPlay} />
+                    </button>
+                    <button onClick={() => handleRemove(testCase)} title="Delete test">
+                      <FontAwesomeIcon icon={faTrash} />
+                    </button>
+                  </div>
+                  <FontAwesomeIcon icon={isExpanded ? faChevronUp : faChevronDown} className="eval-expand" />
+                </div>
+
+                {isExpanded && (
+                  <div className="eval-case-body">
+                    <input
+                      type="text"
+                      value={testCase.name}
+                      onChange={(e) => onUpdate(testCase.id, { name: e.target.value })}
+                      className="eval-name-input"
+                      placeholder="Test name"
+                    />
+                    <textarea
+                      value={testCase.input}
+                      onChange={(e) => onUpdate(testCase.id, { input: e.target.value })}
+                      rows={3}
+                      placeholder="User message to send under the prompt"
+                    />
+
+                    <div className="eval-assertions">
+                      {testCase.assertions.map(assertion => {
+                        const outcome = result?.assertions[assertion.id];
+                        const multiline = assertion.type === 'json-schema' || assertion.type === 'rubric';
+                        return (
+                          <div key={assertion.id} className="eval-assertion">
+                            <div className="eval-assertion-row">
+                              <select
+                                value={assertion.type}
+                                onChange={(e) => updateAssertion(testCase, assertion.id, { type: e.target.value as AssertionType })}
+                              >
+                                {(Object.keys(ASSERTION_LABELS) as AssertionType[]).map(type => (
+                                  <option key={type} value={type}>{ASSERTION_LABELS[type]}</option>
+                                ))}
+                              </select>
+                              {!multiline && (
+                                <input
+                                  type={assertion.type === 'max-length' ? 'number' : 'text'}
+                                  value={assertion.value}
+                                  onChange={(e) => updateAssertion(testCase, assertion.id, { value: e.target.value })}
+                                  placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                                />
+                              )}
+                              <button onClick={() => removeAssertion(testCase, assertion.id)} title="Remove check">
+                                <FontAwesomeIcon icon={faTrash} />
+                              </button>
+                            </div>
+                            {multiline && (
+                              <textarea
+                                value={assertion.value}
+                                onChange={(e) => updateAssertion(testCase, assertion.id, { value: e.target.value })}
+                                rows={assertion.type === 'json-schema' ? 5 : 2}
+                                placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                                className={assertion.type === 'json-schema' ? 'code' : ''}
+                              />
+                            )}
+                            {outcome && (
+                              <div className={`eval-outcome ${outcome.passed ? 'pass' : 'fail'}`}>{outcome.detail}</div>
+                            )}
+                          </div>
+                        );
+                      })}
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && addAssertion(testCase, e.target.value as AssertionType)}
+                        className="eval-add-assertion"
+                      >
+                        <option value="">Add a check...</option>
+                        {(Object.keys(ASSERTION_LABELS) as AssertionType[]).map(type => (
+                          <option key={type} value={type}>{ASSERTION_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {result && (
+                      <div className="eval-reply">
+                        <div className="eval-reply-label">Reply</div>
+                        {result.status === 'error' ? (
+                          <div className="playground-note error">{result.error}</div>
+                        ) : (
+                          <pre>{result.reply || '…'}</pre>
+                        )}
+                        {result.finishReason === 'length' && (
+                          <div className="playground-note">Reply cut off at the output limit</div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
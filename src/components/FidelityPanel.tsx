@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faCheckCircle,
+  faExclamationTriangle,
+  faChevronDown,
+  faChevronUp,
+  faPaperclip,
+  faSyncAlt
+} from '@fortawesome/free-solid-svg-icons';
+import type { PromptSegment } from './PromptSegment';
+import type { FidelityIssue, FidelityIssueKind, FidelityReport } from '../utils/fidelity';
+
+interface FidelityPanelProps {
+  report: FidelityReport;
+  originalPrompt: string;
+  segments: PromptSegment[];
+  onAttach: (issue: FidelityIssue) => void;
+  onRecheck: () => void;
+}
+
+const KIND_LABELS: Record<FidelityIssueKind, string> = {
+  dropped: 'Dropped',
+  paraphrased: 'Paraphrased',
+  duplicated: 'Duplicated',
+  hallucinated: 'Not in original'
+};
+
+const MAX_SNIPPET_LENGTH = 240;
+
+const snippet = (text: string) =>
+  text.length > MAX_SNIPPET_LENGTH ? text.slice(0, MAX_SNIPPET_LENGTH) + '...' : text;
+
+export const FidelityPanel: React.FC<FidelityPanelProps> = ({
+  report,
+  originalPrompt,
+  segments,
+  onAttach,
+  onRecheck
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const titleOf = (id: string | null) => segments.find(s => s.id === id)?.title ?? 'Unknown segment';
+  const counts = report.issues.reduce<Partial<Record<FidelityIssueKind, number>>>((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] ?? 0) + 1;
+    return acc;
+  }, {});
+  const hasIssues = report.issues.length > 0;
+  const dropped = report.issues.filter(issue => issue.kind === 'dropped' && issue.originalSpan);
+
+  // Original prompt with every dropped span marked
+  const renderOriginalWithDrops = () => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    dropped.forEach(issue => {
+      const span = issue.originalSpan!;
+      parts.push(originalPrompt.slice(cursor, span.start));
+      parts.push(<mark key={issue.id} className="fidelity-dropped">{originalPrompt.slice(span.start, span.end)}</mark>);
+      cursor = span.end;
+    });
+    parts.push(originalPrompt.slice(cursor));
+    return parts;
+  };
+
+  return (
+    <div className={`fidelity-panel ${hasIssues ? 'has-issues' : 'clean'}`}>
+      <div className="fidelity-header">
+        <FontAwesomeIcon
+          icon={hasIssues ? faExclamationTriangle : faCheckCircle}
+          className="fidelity-icon"
+        />
+        <span className="fidelity-summary">
+          {hasIssues
+            ? (Object.keys(counts) as FidelityIssueKind[])
+              .map(kind => `${counts[kind]} ${KIND_LABELS[kind].toLowerCase()}`)
+              .join(' · ')
+            : 'All original text preserved'}
+        </span>
+        <span className="fidelity-coverage" title="Share of the original prompt's words found unchanged in the segments">
+          {Math.round(report.coverage * 100)}% verbatim
+        </span>
+        <button onClick={onRecheck} className="btn-toggle" title="Re-check against the original prompt">
+          <FontAwesomeIcon icon={faSyncAlt} />
+        </button>
+        {hasIssues && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="btn-toggle"
+            title={isExpanded ? 'Hide details' : 'Show details'}
+          >
+            <FontAwesomeIcon icon={isExpanded ? faChevronUp : faChevronDown} />
+          </button>
+        )}
+      </div>
+
+      {hasIssues && isExpanded && (
+        <div className="fidelity-details">
+          <ul className="fidelity-issues">
+            {report.issues.map(issue => (
+              <li key={issue.id} className={`fidelity-issue ${issue.kind}`}>
+                <div className="fidelity-issue-header">
+                  <span className={`fidelity-kind ${issue.kind}`}>{KIND_LABELS[issue.kind]}</span>
+                  {issue.kind !== 'dropped' && (
+                    <span className="fidelity-segment">in "{titleOf(issue.segmentId)}"</span>
+                  )}
+                  {issue.kind === 'dropped' && issue.attach && (
+                    <button
+                      onClick={() => onAttach(issue)}
+                      className="btn-attach"
+                      title="Put the dropped text back where it was in the original"
+                    >
+                      <FontAwesomeIcon icon={faPaperclip} />
+                      Attach to "{titleOf(issue.attach.segmentId)}"
+                    </button>
+                  )}
+                </div>
+                <div className="fidelity-issue-text">
+                  {issue.originalText && (
+                    issue.kind === 'dropped'
+                      ? <mark className="fidelity-dropped">{snippet(issue.originalText)}</mark>
+                      : <del>{snippet(issue.originalText)}</del>
+                  )}
+                  {issue.originalText && issue.segmentText && ' → '}
+                  {issue.segmentText && <ins>{snippet(issue.segmentText)}</ins>}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {dropped.length > 0 && (
+            <details className="fidelity-original">
+              <summary>Show dropped text in the original prompt</summary>
+              <div className="fidelity-original-text">{renderOriginalWithDrops()}</div>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
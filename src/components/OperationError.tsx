@@ -0,0 +1,23 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExclamationTriangle, faTimes } from '@fortawesome/free-solid-svg-icons';
+import type { ErrorNotice } from '../types';
+
+interface OperationErrorProps {
+  notice: ErrorNotice;
+  onDismiss: () => void;
+}
+
+// A failed AI operation, shown next to what it was run on
+export const OperationError: React.FC<OperationErrorProps> = ({ notice, onDismiss }) => (
+  <div className="operation-error" role="alert">
+    <FontAwesomeIcon icon={faExclamationTriangle} className="error-icon" />
+    <div className="error-text">
+      <span className="error-message">{notice.message}</span>
+      {notice.remediation && <span className="error-remediation">{notice.remediation}</span>}
+    </div>
+    <button onClick={onDismiss} className="btn-toggle" title="Dismiss">
+      <FontAwesomeIcon icon={faTimes} />
+    </button>
+  </div>
+);
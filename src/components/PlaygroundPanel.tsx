@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faPaperPlane,
+  faStop,
+  faRedo,
+  faTrash,
+  faExclamationTriangle
+} from '@fortawesome/free-solid-svg-icons';
+import { usePlayground, type PlaygroundRun, type PlaygroundTurn } from '../hooks/usePlayground';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import { formatTokenCount } from '../services/tokenizer';
+import { diffText } from '../utils/diff';
+
+interface PlaygroundPanelProps {
+  systemPrompt: string;
+  hasApiKey: boolean;
+  tokenizer: Tokenizer;
+}
+
+const FINISH_NOTES: Record<string, string> = {
+  length: 'Reply cut off at the output limit',
+  content_filter: 'Reply stopped by the content filter'
+};
+
+const TurnView: React.FC<{ turn: PlaygroundTurn }> = ({ turn }) => (
+  <div className="playground-turn">
+    <div className="playground-message user">{turn.user}</div>
+    <div className={`playground-message assistant ${turn.status}`}>
+      {turn.reply || (turn.status === 'streaming' ? '…' : '')}
+      {turn.status === 'stopped' && <div className="playground-note">Stopped</div>}
+      {turn.status === 'error' && <div className="playground-note error">{turn.error}</div>}
+      {turn.finishReason && FINISH_NOTES[turn.finishReason] && (
+        <div className="playground-note">{FINISH_NOTES[turn.finishReason]}</div>
+      )}
+    </div>
+  </div>
+);
+
+const ReplyDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <div className="playground-message assistant diff">
+    {diffText(before, after).map((part, index) => {
+      if (part.type === 'delete') return <del key={index}>{part.text}</del>;
+      if (part.type === 'insert') return <ins key={index}>{part.text}</ins>;
+      return <span key={index}>{part.text}</span>;
+    })}
+  </div>
+);
+
+export const PlaygroundPanel: React.FC<PlaygroundPanelProps> = ({ systemPrompt, hasApiKey, tokenizer }) => {
+  const { runs, isRunning, sendMessage, rerun, stop, clear } = usePlayground(systemPrompt);
+  const [message, setMessage] = useState('');
+  const [compareId, setCompareId] = useState<string>('');
+  const [showDiff, setShowDiff] = useState(false);
+
+  const current = runs[runs.length - 1];
+  const baseline = runs.find(run => run.id === compareId && run.id !== current?.id) ?? null;
+  const promptChanged = Boolean(current) && current.systemPrompt !== systemPrompt;
+  const canSend = hasApiKey && systemPrompt.trim().length > 0 && !isRunning;
+
+  const handleSend = () => {
+    if (canSend && message.trim()) {
+      void sendMessage(message);
+      setMessage('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const promptTokens = (run: PlaygroundRun) =>
+    formatTokenCount(tokenizer.countTokens(run.systemPrompt), tokenizer.isExact);
+
+  return (
+    <div className="playground-panel">
+      <div className="playground-header">
+        <h2>Playground</h2>
+        {current && (
+          <span className="playground-run-info">
+            Run {current.number} · prompt {promptTokens(current)}
+          </span>
+        )}
+        <div className="playground-actions">
+          {runs.length > 1 && (
+            <select
+              value={baseline?.id ?? ''}
+              onChange={(e) => setCompareId(e.target.value)}
+              title="Show an earlier run next to the latest one"
+            >
+              <option value="">Compare with...</option>
+              {runs.slice(0, -1).map(run => (
+                <option key={run.id} value={run.id}>Run {run.number}</option>
+              ))}
+            </select>
+          )}
+          {current && (
+            <button
+              onClick={() => void rerun(current.id)}
+              disabled={!canSend || current.turns.length === 0}
+              title="Replay this conversation against the current prompt"
+            >
+              <FontAwesomeIcon icon={faRedo} /> Re-run
+            </button>
+          )}
+          <button onClick={clear} disabled={runs.length === 0} title="Clear all runs">
+            <FontAwesomeIcon icon={faTrash} />
+          </button>
+        </div>
+      </div>
+
+      {!hasApiKey && (
+        <div className="playground-hint">Configure an AI provider to test the prompt.</div>
+      )}
+      {promptChanged && !isRunning && (
+        <div className="playground-hint warning">
+          <FontAwesomeIcon icon={faExclamationTriangle} /> The prompt changed since this run.
+          Your next message starts a new run, or Re-run replays this conversation with the new prompt.
+        </div>
+      )}
+
+      <div className={`playground-transcript ${baseline ? 'comparing' : ''}`}>
+        {!current && (
+          <div className="playground-empty">
+            The final output is sent as the system prompt. Type a user message below to see how the model responds.
+          </div>
+        )}
+
+        {current && baseline ? (
+          <>
+            <div className="playground-compare-header">
+              <span>Run {baseline.number} · prompt {promptTokens(baseline)}</span>
+              <span>Run {current.number} · prompt {promptTokens(current)}</span>
+              <label className="playground-diff-toggle">
+                <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+                Highlight differences
+              </label>
+            </div>
+            {baseline.systemPrompt === current.systemPrompt && (
+              <div className="playground-hint">Both runs used the same prompt.</div>
+            )}
+            {Array.from({ length: Math.max(baseline.turns.length, current.turns.length) }, (_, i) => (
+              <div key={i} className="playground-compare-row">
+                {baseline.turns[i] ? <TurnView turn={baseline.turns[i]} /> : <div />}
+                {current.turns[i] && showDiff && baseline.turns[i] && current.turns[i].status === 'done' ? (
+                  <div className="playground-turn">
+                    <div className="playground-message user">{current.turns[i].user}</div>
+                    <ReplyDiff before={baseline.turns[i].reply} after={current.turns[i].reply} />
+                  </div>
+                ) : current.turns[i] ? (
+                  <TurnView turn={current.turns[i]} />
+                ) : <div />}
+              </div>
+            ))}
+          </>
+        ) : (
+          current?.turns.map((turn, index) => <TurnView key={index} turn={turn} />)
+        )}
+      </div>
+
+      <div className="playground-input">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={systemPrompt.trim() ? 'User message (Enter to send, Shift+Enter for a new line)' : 'Include some segments first'}
+          rows={2}
+          disabled={!hasApiKey}
+        />
+        {isRunning ? (
+          <button onClick={stop} className="btn-stop" title="Stop the reply">
+            <FontAwesomeIcon icon={faStop} />
+          </button>
+        ) : (
+          <button onClick={handleSend} className="btn-send" disabled={!canSend || !message.trim()} title="Send">
+            <FontAwesomeIcon icon={faPaperPlane} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
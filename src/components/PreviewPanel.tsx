@@ -1,25 +1,43 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import { formatTokenCount } from '../services/tokenizer';
+import { extractVariableNames, renderTemplate, splitTemplate } from '../utils/templateVariables';
+import { ASSEMBLY_FORMAT_LABELS, ASSEMBLY_FORMATS } from '../utils/assembly';
+import type { AssemblyFormat, AssemblyOptions, TemplateVariable } from '../types';
 
 interface PreviewPanelProps {
   finalOutput: string;
-  onExportOutput: () => void;
-  isLoading: boolean;
+  variables: TemplateVariable[];
+  onExportOutput: (rendered: boolean) => void;
   hasApiKey: boolean;
   segmentCount: number;
+  tokenizer: Tokenizer;
+  assembly: AssemblyOptions;
+  onAssemblyChange: (updates: Partial<AssemblyOptions>) => void;
 }
 
 export const PreviewPanel: React.FC<PreviewPanelProps> = ({
-  finalOutput,
+  finalOutput: template,
+  variables,
   onExportOutput,
-  isLoading,
   hasApiKey,
-  segmentCount
+  segmentCount,
+  tokenizer,
+  assembly,
+  onAssemblyChange
 }) => {
   const [viewMode, setViewMode] = useState<'preview' | 'raw'>('preview');
+  const [outputMode, setOutputMode] = useState<'rendered' | 'template'>('rendered');
+
+  const hasVariables = useMemo(() => extractVariableNames(template).length > 0, [template]);
+  const rendered = useMemo(() => renderTemplate(template, variables), [template, variables]);
+  // Everything below shows, counts, copies and exports what is currently selected
+  const finalOutput = hasVariables && outputMode === 'template' ? template : rendered;
 
   const wordCount = finalOutput.split(/\s+/).filter(word => word.length > 0).length;
   const charCount = finalOutput.length;
   const lineCount = finalOutput.split('\n').length;
+  const tokenCount = useMemo(() => tokenizer.countTokens(finalOutput), [tokenizer, finalOutput]);
 
   const handleCopyToClipboard = async () => {
     try {
@@ -37,7 +55,16 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
     }
   };
 
-  if (finalOutput.length === 0) {
+  // Placeholders still in the text are highlighted: all of them in template view, unfilled ones when rendered
+  const renderLine = (line: string) =>
+    hasVariables
+      ? splitTemplate(line).map((part, index) =>
+        part.type === 'text'
+          ? part.text
+          : <mark key={index} className={`template-variable ${outputMode === 'rendered' ? 'unfilled' : ''}`}>{part.raw}</mark>)
+      : line;
+
+  if (template.length === 0) {
     return (
       <div className="preview-panel empty">
         <div className="empty-state">
@@ -49,7 +76,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
             <ul>
               <li>Real-time preview of included segments</li>
               <li>Export and copy functionality</li>
-              <li>Character and word counts</li>
+              <li>Token, character and word counts</li>
             </ul>
           </div>
         </div>
@@ -62,6 +89,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
       <div className="preview-header">
         <h2>Final Output</h2>
         <div className="preview-stats">
+          <span className="token-count">{formatTokenCount(tokenCount, tokenizer.isExact)}</span>
           <span className="word-count">{wordCount.toLocaleString()} words</span>
           <span className="char-count">{charCount.toLocaleString()} chars</span>
           <span className="line-count">{lineCount} lines</span>
@@ -84,6 +112,37 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
           </button>
         </div>
 
+        {hasVariables && (
+          <div className="view-controls output-mode">
+            <button
+              className={`btn-view ${outputMode === 'rendered' ? 'active' : ''}`}
+              onClick={() => setOutputMode('rendered')}
+              title="Variables replaced with their values"
+            >
+              Rendered
+            </button>
+            <button
+              className={`btn-view ${outputMode === 'template' ? 'active' : ''}`}
+              onClick={() => setOutputMode('template')}
+              title="Variables shown as {{placeholders}}"
+            >
+              Template
+            </button>
+          </div>
+        )}
+
+        <label className="assembly-format" title="How the included segments are joined; saved with the project">
+          Format
+          <select
+            value={assembly.format}
+            onChange={(e) => onAssemblyChange({ format: e.target.value as AssemblyFormat })}
+          >
+            {ASSEMBLY_FORMATS.map(format => (
+              <option key={format} value={format}>{ASSEMBLY_FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </label>
+
         <div className="preview-actions">
           <button
             onClick={handleCopyToClipboard}
@@ -94,15 +153,50 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
           </button>
           
           <button
-            onClick={onExportOutput}
+            onClick={() => onExportOutput(true)}
             className="btn-export"
             disabled={finalOutput.length === 0}
+            title={hasVariables ? 'Download with variable values filled in' : undefined}
           >
             Export
           </button>
+
+          {hasVariables && (
+            <button
+              onClick={() => onExportOutput(false)}
+              className="btn-export"
+              title="Download with {{placeholders}} kept"
+            >
+              Export Template
+            </button>
+          )}
         </div>
       </div>
 
+      {assembly.format === 'custom' && (
+        <div className="assembly-custom">
+          <label>
+            Segment template
+            <input
+              type="text"
+              value={assembly.template}
+              onChange={(e) => onAssemblyChange({ template: e.target.value })}
+              placeholder="{content}"
+            />
+          </label>
+          <label>
+            Separator
+            <input
+              type="text"
+              value={assembly.separator}
+              onChange={(e) => onAssemblyChange({ separator: e.target.value })}
+              placeholder="\n\n"
+            />
+          </label>
+          <small>{'{title}'} and {'{content}'} are replaced for each segment; write \n for a line break</small>
+        </div>
+      )}
+
       <div className="preview-content">
         {viewMode === 'preview' ? (
           <div className="preview-formatted">
@@ -110,7 +204,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
               <div key={index} className="preview-paragraph">
                 {paragraph.split('\n').map((line, lineIndex) => (
                   <div key={lineIndex} className="preview-line">
-                    {line || '\u00A0' /* Non-breaking space for empty lines */}
+                    {line ? renderLine(line) : '\u00A0' /* Non-breaking space for empty lines */}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,195 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faPlus,
+  faTimes,
+  faSearch,
+  faPen,
+  faCopy,
+  faTrash,
+  faCheck,
+  faFileImport,
+  faFileExport
+} from '@fortawesome/free-solid-svg-icons';
+import type { ProjectSummary } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+
+interface ProjectSidebarProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImportFile: (file: File) => void;
+}
+
+const formatUpdated = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
+  projects,
+  activeProjectId,
+  isOpen,
+  onClose,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImportFile
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Matches the project name or anywhere in its prompt
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return projects;
+    return projects.filter(project =>
+      project.name.toLowerCase().includes(needle) ||
+      project.originalPrompt.toLowerCase().includes(needle)
+    );
+  }, [projects, query]);
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName);
+    }
+    setRenamingId(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="project-sidebar-backdrop" onClick={onClose}>
+      <aside className="project-sidebar" onClick={(e) => e.stopPropagation()}>
+        <div className="project-sidebar-header">
+          <h2>Projects</h2>
+          <button onClick={onCreate} className="btn-new-project" title="Start a new prompt">
+            <FontAwesomeIcon icon={faPlus} /> New
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="btn-import-project"
+            title={`Import a ${PROJECT_FILE_EXTENSION} file (or drop one anywhere on the page)`}
+          >
+            <FontAwesomeIcon icon={faFileImport} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            hidden
+          />
+          <button onClick={onClose} className="btn-close-sidebar" title="Close">
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+
+        <div className="project-search">
+          <FontAwesomeIcon icon={faSearch} className="project-search-icon" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search projects..."
+          />
+        </div>
+
+        <ul className="project-list">
+          {filtered.map(project => (
+            <li
+              key={project.id}
+              className={`project-item ${project.id === activeProjectId ? 'active' : ''}`}
+              onClick={() => renamingId !== project.id && onOpen(project.id)}
+            >
+              {renamingId === project.id ? (
+                <div className="project-rename" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={commitRename}
+                    autoFocus
+                  />
+                  <button onClick={commitRename} title="Save name">
+                    <FontAwesomeIcon icon={faCheck} />
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="project-info">
+                    <span className="project-name">{project.name}</span>
+                    <span className="project-meta">
+                      {project.segmentCount} segments · {formatUpdated(project.updatedAt)}
+                    </span>
+                  </div>
+                  <div className="project-actions" onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => startRename(project)} title="Rename">
+                      <FontAwesomeIcon icon={faPen} />
+                    </button>
+                    <button onClick={() => onExport(project.id)} title="Export as project file">
+                      <FontAwesomeIcon icon={faFileExport} />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} title="Duplicate">
+                      <FontAwesomeIcon icon={faCopy} />
+                    </button>
+                    <button onClick={() => handleDelete(project)} title="Delete">
+                      <FontAwesomeIcon icon={faTrash} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+          {filtered.length === 0 && (
+            <li className="project-empty">
+              {projects.length === 0 ? 'No projects yet' : 'No projects match your search'}
+            </li>
+          )}
+        </ul>
+      </aside>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faChevronRight,
@@ -8,13 +8,20 @@ import {
   faTrash,
   faExclamationTriangle
 } from '@fortawesome/free-solid-svg-icons';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import { formatTokenCount } from '../services/tokenizer';
+import { formatCost } from '../services/pricing';
+import type { SegmentationMode } from '../types';
 
 interface PromptInputProps {
   value: string;
   onChange: (value: string) => void;
   onBreakPrompt: () => void;
-  isLoading: boolean;
+  isSegmenting: boolean;
   hasApiKey: boolean;
+  tokenizer: Tokenizer;
+  segmentationMode: SegmentationMode;
+  onSegmentationModeChange: (mode: SegmentationMode) => void;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
 }
@@ -23,33 +30,28 @@ export const PromptInput: React.FC<PromptInputProps> = ({
   value,
   onChange,
   onBreakPrompt,
-  isLoading,
+  isSegmenting,
   hasApiKey,
+  tokenizer,
+  segmentationMode,
+  onSegmentationModeChange,
   isCollapsed = false,
   onToggleCollapse
 }) => {
-  const [charCount, setCharCount] = useState(value.length);
-
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newValue = e.target.value;
-    onChange(newValue);
-    setCharCount(newValue.length);
+    onChange(e.target.value);
   };
 
-  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
-    // Capture the target reference before setTimeout to avoid race condition
-    const target = e.currentTarget;
-    
-    // Allow natural paste behavior, but update character count
-    setTimeout(() => {
-      // Use the captured target reference which won't become null
-      if (target && target.value !== undefined) {
-        setCharCount(target.value.length);
-      }
-    }, 0);
-  };
+  const isAiMode = segmentationMode === 'ai';
+  // Counted once per change and shared with the estimate, since long prompts are slow to tokenize
+  const tokenCount = useMemo(() => tokenizer.countTokens(value), [tokenizer, value]);
+  const breakEstimate = useMemo(
+    () => (isAiMode && hasApiKey && value.trim() ? tokenizer.estimateOperation('break', value, tokenCount) : null),
+    [tokenizer, isAiMode, hasApiKey, value, tokenCount]
+  );
 
-  const canBreakPrompt = hasApiKey && value.trim().length > 0 && !isLoading;
+  // Structural mode runs locally, so it works without an API key
+  const canBreakPrompt = (!isAiMode || hasApiKey) && value.trim().length > 0 && !isSegmenting;
 
   return (
     <div className={`prompt-input ${isCollapsed ? 'collapsed' : ''}`}>
@@ -66,7 +68,7 @@ export const PromptInput: React.FC<PromptInputProps> = ({
                 <button
                   onClick={onToggleCollapse}
                   className="btn-collapse"
-                  disabled={isLoading}
+                  disabled={isSegmenting}
                   title="Collapse prompt input"
                   aria-label="Collapse prompt input"
                 >
@@ -78,9 +80,12 @@ export const PromptInput: React.FC<PromptInputProps> = ({
             <div className="input-header-right">
               <div className="input-info">
                 <span className="char-count">
-                  {charCount.toLocaleString()} chars
+                  {value.length.toLocaleString()} chars
+                </span>
+                <span className="token-count">
+                  {formatTokenCount(tokenCount, tokenizer.isExact)}
                 </span>
-                {!hasApiKey && (
+                {isAiMode && !hasApiKey && (
                   <span className="warning">
                     <FontAwesomeIcon icon={faExclamationTriangle} />
                     API key required
@@ -96,7 +101,6 @@ export const PromptInput: React.FC<PromptInputProps> = ({
         <textarea
           value={value}
           onChange={handleChange}
-          onPaste={handlePaste}
           placeholder="Paste your large prompt here...
 
 This tool will help you:
@@ -108,17 +112,42 @@ This tool will help you:
 
 Start by pasting your prompt and clicking 'Break Into Sections'."
           className="prompt-textarea"
-          disabled={isLoading}
+          disabled={isSegmenting}
           rows={12}
         />
         
+        <div className="view-controls segmentation-mode" role="radiogroup" aria-label="Segmentation mode">
+          <button
+            type="button"
+            role="radio"
+            aria-checked={segmentationMode === 'structural'}
+            className={`btn-view ${segmentationMode === 'structural' ? 'active' : ''}`}
+            onClick={() => onSegmentationModeChange('structural')}
+            disabled={isSegmenting}
+            title="Split on headings, tags, lists and paragraphs. Runs offline, no API key needed"
+          >
+            Structural
+          </button>
+          <button
+            type="button"
+            role="radio"
+            aria-checked={segmentationMode === 'ai'}
+            className={`btn-view ${segmentationMode === 'ai' ? 'active' : ''}`}
+            onClick={() => onSegmentationModeChange('ai')}
+            disabled={isSegmenting}
+            title="Let the AI find logical sections and title them"
+          >
+            AI
+          </button>
+        </div>
+
         <div className="input-actions">
           <button
             onClick={onBreakPrompt}
             disabled={!canBreakPrompt}
             className={`btn-break-prompt ${canBreakPrompt ? 'enabled' : 'disabled'}`}
           >
-            {isLoading ? (
+            {isSegmenting ? (
               <>
                 <FontAwesomeIcon icon={faSpinner} spin />
                 Breaking into sections...
@@ -135,19 +164,28 @@ Start by pasting your prompt and clicking 'Break Into Sections'."
             <button
               onClick={() => onChange('')}
               className="btn-clear"
-              disabled={isLoading}
+              disabled={isSegmenting}
             >
               <FontAwesomeIcon icon={faTrash} />
               Clear
             </button>
           )}
         </div>
+
+        {breakEstimate && (
+          <div className="cost-estimate" title="Estimated before sending; actual usage depends on the model's response">
+            Estimated: {formatTokenCount(breakEstimate.inputTokens, tokenizer.isExact)} in
+            {' + '}{formatTokenCount(breakEstimate.outputTokens, false)} out
+            {' · '}{formatCost(breakEstimate.cost)}
+          </div>
+        )}
       </div>
 
       <div className="input-tips">
         <details>
           <summary>Tips for better results</summary>
           <ul>
+            <li>Structural mode splits on headings, XML-style tags, lists and paragraphs without calling an API</li>
             <li>Longer, more detailed prompts work better for AI segmentation</li>
             <li>The AI will identify logical sections and topics automatically</li>
             <li>Each section will be editable after breaking down</li>
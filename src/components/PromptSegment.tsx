@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
@@ -10,8 +10,24 @@ import {
   faSave,
   faTimes,
   faSpinner,
-  faCut
+  faCut,
+  faMagic,
+  faPlus,
+  faWrench,
+  faObjectUngroup,
+  faCaretRight,
+  faCaretDown,
+  faHistory
 } from '@fortawesome/free-solid-svg-icons';
+import { RewriteReview } from './RewriteReview';
+import { RevisionHistory } from './RevisionHistory';
+import { OperationError } from './OperationError';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import type { AIOperation, RewriteOperation, RewriteOptions, RewriteProposal, SegmentRevision } from '../types';
+import { formatTokenCount } from '../services/tokenizer';
+import { formatCost } from '../services/pricing';
+import { REWRITE_OPERATIONS } from '../services/openai';
+import { FINDING_KIND_LABELS, fixInstruction, type PinnedFinding } from '../utils/analysis';
 
 export interface PromptSegment {
   id: string;
@@ -21,26 +37,86 @@ export interface PromptSegment {
   order: number;
   isEditing: boolean;
   isExpanded?: boolean;
+  // Set for a subsection; the parent comes earlier in the list
+  parentId?: string;
+  // A group whose subsections are hidden in the list
+  isCollapsed?: boolean;
 }
 
+// Horizontal space per nesting level, also the drag distance that changes the level
+export const INDENT_WIDTH = 24;
+
 interface PromptSegmentProps {
   segment: PromptSegment;
+  depth: number;
+  // Direct subsections; a segment with any is a collapsible group
+  childCount: number;
   onUpdate: (id: string, updates: Partial<PromptSegment>) => void;
-  onMakeConcise: (id: string) => void;
-  isLoading: boolean;
+  onSplit: (id: string, content: string, position: number, firstTitle: string, secondTitle: string) => void;
+  // Ctrl/Cmd-click toggles the segment in the selection, Shift-click extends it
+  onSelect: (id: string, extend: boolean) => void;
+  isSelected: boolean;
+  onRewrite: (id: string, operation: RewriteOperation, options?: RewriteOptions) => void;
+  onAcceptRewrite: (id: string, content: string) => void;
+  onRejectRewrite: (id: string) => void;
+  rewrite?: RewriteProposal;
+  // Whole-prompt analysis findings that involve this segment
+  findings?: PinnedFinding[];
+  onDismissFinding: (id: string) => void;
+  onAddSection: (findingId: string) => void;
+  // Earlier versions of the content, oldest first
+  revisions?: SegmentRevision[];
+  onRestoreRevision: (id: string, revisionId: string) => void;
+  // This segment's rewrite while it runs, or after it fails
+  operation?: AIOperation;
+  onDismissError: (id: string) => void;
   hasApiKey: boolean;
+  tokenizer: Tokenizer;
 }
 
 export const PromptSegment: React.FC<PromptSegmentProps> = ({
   segment,
+  depth,
+  childCount,
   onUpdate,
-  onMakeConcise,
-  isLoading,
-  hasApiKey
+  onSplit,
+  onSelect,
+  isSelected,
+  onRewrite,
+  onAcceptRewrite,
+  onRejectRewrite,
+  rewrite,
+  findings = [],
+  onDismissFinding,
+  onAddSection,
+  revisions = [],
+  onRestoreRevision,
+  operation,
+  onDismissError,
+  hasApiKey,
+  tokenizer
 }) => {
+  const isLoading = operation?.isLoading ?? false;
   const [editedContent, setEditedContent] = useState(segment.content);
   const [originalContent, setOriginalContent] = useState(segment.content);
   const [isExpanded, setIsExpanded] = useState(segment.isExpanded ?? false);
+  const [isAiMenuOpen, setIsAiMenuOpen] = useState(false);
+  // An operation waiting for its instruction, such as the target language
+  const [pendingOperation, setPendingOperation] = useState<RewriteOperation | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const aiMenuRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  // Cursor offset in the editor, and where a split was started with its two titles
+  const [cursor, setCursor] = useState(0);
+  const [splitAt, setSplitAt] = useState<number | null>(null);
+  const [splitTitles, setSplitTitles] = useState<[string, string]>(['', '']);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const tokenCount = useMemo(() => tokenizer.countTokens(segment.content), [tokenizer, segment.content]);
+  const conciseEstimate = useMemo(
+    () => (hasApiKey && isExpanded ? tokenizer.estimateOperation('concise', segment.content) : null),
+    [tokenizer, hasApiKey, isExpanded, segment.content]
+  );
 
   const {
     attributes,
@@ -51,10 +127,12 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
     isDragging
   } = useSortable({ id: segment.id });
 
+  // Sideways drags change the indentation instead of moving the card
   const style = {
-    transform: CSS.Transform.toString(transform),
+    transform: CSS.Transform.toString(transform && { ...transform, x: 0 }),
     transition,
-    opacity: isDragging ? 0.5 : 1
+    opacity: isDragging ? 0.5 : 1,
+    marginLeft: depth * INDENT_WIDTH
   };
 
   const handleToggleInclude = () => {
@@ -76,19 +154,69 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
 
   const handleCancelEdit = () => {
     setEditedContent(originalContent);
+    setSplitAt(null);
     onUpdate(segment.id, { isEditing: false });
   };
 
+  const canSplitAt = (position: number) =>
+    editedContent.slice(0, position).trim().length > 0 && editedContent.slice(position).trim().length > 0;
+
+  const handleStartSplit = () => {
+    const position = editorRef.current?.selectionStart ?? cursor;
+    if (canSplitAt(position)) {
+      setSplitAt(position);
+      setSplitTitles([segment.title, `${segment.title} (continued)`]);
+    }
+  };
+
+  const handleConfirmSplit = () => {
+    if (splitAt !== null && splitTitles[0].trim() && splitTitles[1].trim()) {
+      onSplit(segment.id, editedContent, splitAt, splitTitles[0].trim(), splitTitles[1].trim());
+      setSplitAt(null);
+    }
+  };
+
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setEditedContent(e.target.value);
   };
 
   const handleMakeConcise = () => {
     if (hasApiKey && !isLoading) {
-      onMakeConcise(segment.id);
+      onRewrite(segment.id, 'concise');
     }
   };
 
+  const handleChooseOperation = (operation: RewriteOperation) => {
+    setIsAiMenuOpen(false);
+    if (REWRITE_OPERATIONS[operation].instructionLabel) {
+      setPendingOperation(operation);
+      setInstruction('');
+    } else {
+      onRewrite(segment.id, operation);
+    }
+  };
+
+  const handleRunInstruction = () => {
+    if (pendingOperation && instruction.trim()) {
+      onRewrite(segment.id, pendingOperation, { instruction: instruction.trim() });
+      setPendingOperation(null);
+    }
+  };
+
+  // Close the AI menu on any click outside it
+  useEffect(() => {
+    if (!isAiMenuOpen) {
+      return;
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!aiMenuRef.current?.contains(e.target as Node)) {
+        setIsAiMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isAiMenuOpen]);
+
   const handleToggleExpanded = () => {
     const newExpanded = !isExpanded;
     setIsExpanded(newExpanded);
@@ -111,13 +239,17 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
     <div
       ref={setNodeRef}
       style={style}
-      className={`prompt-segment ${segment.isIncluded ? 'included' : 'excluded'} ${isDragging ? 'dragging' : ''}`}
+      className={`prompt-segment ${segment.isIncluded ? 'included' : 'excluded'} ${isDragging ? 'dragging' : ''} ${isSelected ? 'selected' : ''}`}
     >
       <div className="segment-header" onClick={(e) => {
         // Only toggle if clicking on the header itself, not buttons or controls
         if ((e.target as HTMLElement).closest('.segment-controls, .segment-actions')) {
           return;
         }
+        if (e.ctrlKey || e.metaKey || e.shiftKey) {
+          onSelect(segment.id, e.shiftKey);
+          return;
+        }
         handleToggleExpanded();
       }} style={{ cursor: 'pointer' }}>
         <div className="segment-controls">
@@ -140,6 +272,18 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
           </label>
           
           <div className="segment-order">#{segment.order + 1}</div>
+
+          {childCount > 0 && (
+            <button
+              className="btn-collapse-group"
+              onClick={() => onUpdate(segment.id, { isCollapsed: !segment.isCollapsed })}
+              title={segment.isCollapsed
+                ? `Show ${childCount} subsection${childCount === 1 ? '' : 's'}`
+                : `Hide ${childCount} subsection${childCount === 1 ? '' : 's'}`}
+            >
+              <FontAwesomeIcon icon={segment.isCollapsed ? faCaretRight : faCaretDown} />
+            </button>
+          )}
         </div>
         
         <h3 className="segment-title">{segment.title}</h3>
@@ -150,7 +294,7 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
               {getPreviewText(segment.content, 60)}
             </span>
             <span className="segment-char-info">
-              {segment.content.length} chars
+              {segment.content.length} chars · {formatTokenCount(tokenCount, tokenizer.isExact)}
             </span>
           </div>
         )}
@@ -158,6 +302,12 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
         <div className="segment-actions">
           {!segment.isEditing ? (
             <>
+              {isLoading && !isExpanded && (
+                <span className="segment-busy" title="Waiting for the AI rewrite">
+                  <FontAwesomeIcon icon={faSpinner} spin />
+                </span>
+              )}
+
               <button
                 onClick={handleToggleExpanded}
                 className="btn-toggle"
@@ -179,16 +329,63 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
                   <button
                     onClick={handleMakeConcise}
                     className="btn-concise"
-                    disabled={!hasApiKey || isLoading}
-                    title={hasApiKey ? "Make more concise with AI" : "API key required"}
+                    disabled={!hasApiKey || isLoading || Boolean(rewrite)}
+                    title={hasApiKey
+                      ? `Make more concise with AI${conciseEstimate ? ` (est. ${formatCost(conciseEstimate.cost)})` : ''}`
+                      : "API key required"}
                   >
                     {isLoading ? <FontAwesomeIcon icon={faSpinner} spin /> : <FontAwesomeIcon icon={faCut} />}
                   </button>
+
+                  <div className="segment-ai-menu-wrapper" ref={aiMenuRef}>
+                    <button
+                      onClick={() => setIsAiMenuOpen(!isAiMenuOpen)}
+                      className="btn-ai-actions"
+                      disabled={!hasApiKey || isLoading || Boolean(rewrite)}
+                      title={hasApiKey ? 'More AI actions' : 'API key required'}
+                    >
+                      <FontAwesomeIcon icon={faMagic} />
+                    </button>
+                    {isAiMenuOpen && (
+                      <div className="segment-ai-menu">
+                        {(Object.keys(REWRITE_OPERATIONS) as RewriteOperation[])
+                          .filter(operation => operation !== 'concise')
+                          .map(operation => {
+                            const estimate = tokenizer.estimateOperation(operation, segment.content);
+                            return (
+                              <button key={operation} onClick={() => handleChooseOperation(operation)}>
+                                <span>{REWRITE_OPERATIONS[operation].label}</span>
+                                {estimate && <span className="cost-estimate">{formatCost(estimate.cost)}</span>}
+                              </button>
+                            );
+                          })}
+                      </div>
+                    )}
+                  </div>
+
+                  {revisions.length > 0 && (
+                    <button
+                      onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                      className={`btn-history ${isHistoryOpen ? 'active' : ''}`}
+                      title={`${revisions.length} revision${revisions.length === 1 ? '' : 's'}`}
+                    >
+                      <FontAwesomeIcon icon={faHistory} />
+                    </button>
+                  )}
                 </>
               )}
             </>
           ) : (
             <>
+              <button
+                onClick={handleStartSplit}
+                className="btn-split"
+                disabled={splitAt !== null || !canSplitAt(cursor)}
+                title="Split into two segments at the cursor"
+              >
+                <FontAwesomeIcon icon={faObjectUngroup} />
+              </button>
+
               <button
                 onClick={handleSaveEdit}
                 className="btn-save"
@@ -209,19 +406,156 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
         </div>
       </div>
 
-      {isExpanded && (
+      {operation?.error && (
+        <OperationError notice={operation.error} onDismiss={() => onDismissError(segment.id)} />
+      )}
+
+      {findings.length > 0 && (
+        <ul className="segment-annotations">
+          {findings.map(({ finding, isStale, otherTitles }) => (
+            <li key={finding.id} className={`segment-annotation ${finding.kind} ${isStale ? 'stale' : ''}`}>
+              <div className="segment-annotation-header">
+                <span className={`analysis-kind ${finding.kind}`}>{FINDING_KIND_LABELS[finding.kind]}</span>
+                {otherTitles.length > 0 && (
+                  <span className="segment-annotation-with">
+                    with {otherTitles.map(title => `"${title}"`).join(', ')}
+                  </span>
+                )}
+                {isStale && <span className="analysis-stale">out of date</span>}
+                <div className="segment-annotation-actions">
+                  {finding.section ? (
+                    <button
+                      onClick={() => onAddSection(finding.id)}
+                      title="Add the proposed section as a new segment at the end"
+                    >
+                      <FontAwesomeIcon icon={faPlus} /> Add "{finding.section.title}"
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onRewrite(segment.id, 'edit', { instruction: fixInstruction(finding, otherTitles) })}
+                      disabled={!hasApiKey || isLoading || Boolean(rewrite) || segment.isEditing}
+                      title="Apply the suggestion to this segment with AI, reviewed before anything changes"
+                    >
+                      <FontAwesomeIcon icon={faWrench} /> Fix
+                    </button>
+                  )}
+                  <button onClick={() => onDismissFinding(finding.id)} title="Dismiss">
+                    <FontAwesomeIcon icon={faTimes} />
+                  </button>
+                </div>
+              </div>
+              <div className="segment-annotation-summary">{finding.summary}</div>
+              {finding.quote && <q className="segment-annotation-quote">{finding.quote}</q>}
+              {!finding.section && finding.suggestion !== finding.summary && (
+                <div className="analysis-suggestion">{finding.suggestion}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(isExpanded || rewrite || pendingOperation) && (
         <div className="segment-content">
-          {segment.isEditing ? (
+          {rewrite && !segment.isEditing ? (
+            <RewriteReview
+              key={rewrite.proposed}
+              proposal={rewrite}
+              tokenizer={tokenizer}
+              isLoading={isLoading}
+              onAccept={(content) => onAcceptRewrite(segment.id, content)}
+              onReject={() => onRejectRewrite(segment.id)}
+              onRegenerate={() => onRewrite(segment.id, rewrite.operation, {
+                instruction: rewrite.instruction,
+                regenerate: true
+              })}
+            />
+          ) : pendingOperation && !segment.isEditing ? (
+            <div className="segment-instruction">
+              <label>{REWRITE_OPERATIONS[pendingOperation].instructionLabel}</label>
+              {pendingOperation === 'edit' ? (
+                <textarea
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  placeholder={REWRITE_OPERATIONS[pendingOperation].instructionPlaceholder}
+                  rows={2}
+                  autoFocus
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRunInstruction()}
+                  placeholder={REWRITE_OPERATIONS[pendingOperation].instructionPlaceholder}
+                  autoFocus
+                />
+              )}
+              <div className="segment-instruction-actions">
+                <button onClick={() => setPendingOperation(null)} className="btn-cancel">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRunInstruction}
+                  className="btn-run"
+                  disabled={!instruction.trim() || isLoading}
+                >
+                  {REWRITE_OPERATIONS[pendingOperation].label}
+                </button>
+              </div>
+            </div>
+          ) : segment.isEditing ? (
             <div className="edit-mode">
               <textarea
+                ref={editorRef}
                 value={editedContent}
                 onChange={handleContentChange}
+                onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
                 className="segment-editor"
                 rows={Math.max(3, editedContent.split('\n').length)}
                 placeholder="Edit segment content..."
+                readOnly={splitAt !== null}
               />
+              {splitAt !== null && (
+                <div className="segment-split">
+                  <div className="segment-split-part">
+                    <label>First part</label>
+                    <input
+                      type="text"
+                      value={splitTitles[0]}
+                      onChange={(e) => setSplitTitles([e.target.value, splitTitles[1]])}
+                      autoFocus
+                    />
+                    <span className="segment-split-preview">{getPreviewText(editedContent.slice(0, splitAt).trim(), 80)}</span>
+                  </div>
+                  <div className="segment-split-part">
+                    <label>Second part</label>
+                    <input
+                      type="text"
+                      value={splitTitles[1]}
+                      onChange={(e) => setSplitTitles([splitTitles[0], e.target.value])}
+                      onKeyDown={(e) => e.key === 'Enter' && handleConfirmSplit()}
+                    />
+                    <span className="segment-split-preview">{getPreviewText(editedContent.slice(splitAt).trim(), 80)}</span>
+                  </div>
+                  <div className="segment-instruction-actions">
+                    <button onClick={() => setSplitAt(null)} className="btn-cancel">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleConfirmSplit}
+                      className="btn-run"
+                      disabled={!splitTitles[0].trim() || !splitTitles[1].trim()}
+                    >
+                      Split
+                    </button>
+                  </div>
+                </div>
+              )}
               <div className="edit-info">
                 <span className="char-count">{editedContent.length} characters</span>
+                <span className="token-count">
+                  {formatTokenCount(tokenizer.countTokens(editedContent), tokenizer.isExact)}
+                </span>
               </div>
             </div>
           ) : (
@@ -231,10 +565,24 @@ export const PromptSegment: React.FC<PromptSegmentProps> = ({
               </div>
               <div className="segment-info">
                 <span className="char-count">{segment.content.length} characters</span>
+                <span className="token-count">{formatTokenCount(tokenCount, tokenizer.isExact)}</span>
+                {conciseEstimate && (
+                  <span className="cost-estimate">
+                    Make concise: {formatCost(conciseEstimate.cost)}
+                  </span>
+                )}
                 {!segment.isIncluded && (
                   <span className="excluded-badge">Excluded from output</span>
                 )}
               </div>
+              {isHistoryOpen && revisions.length > 0 && (
+                <RevisionHistory
+                  revisions={revisions}
+                  currentContent={segment.content}
+                  onRestore={(revisionId) => onRestoreRevision(segment.id, revisionId)}
+                  onClose={() => setIsHistoryOpen(false)}
+                />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faUndo } from '@fortawesome/free-solid-svg-icons';
+import { useRequestQueue } from '../hooks/useRequestQueue';
+import { DEFAULT_REQUEST_SETTINGS, REQUEST_SETTINGS_LIMITS } from '../services/requestQueue';
+import type { RequestSettings } from '../types';
+
+const FIELDS: { key: keyof RequestSettings; label: string }[] = [
+  { key: 'concurrency', label: 'Concurrent requests' },
+  { key: 'maxRetries', label: 'Retries' },
+  { key: 'timeoutSeconds', label: 'Timeout (seconds)' }
+];
+
+export const RequestSettingsEditor: React.FC = () => {
+  const { settings, updateSettings, resetSettings } = useRequestQueue();
+  const isDefault = FIELDS.every(({ key }) => settings[key] === DEFAULT_REQUEST_SETTINGS[key]);
+
+  const handleChange = (key: keyof RequestSettings, value: string) => {
+    if (value !== '' && Number.isFinite(Number(value))) {
+      updateSettings({ [key]: Number(value) });
+    }
+  };
+
+  return (
+    <div className="settings-editor">
+      <div className="settings-editor-header">
+        <h3>Requests</h3>
+        <button onClick={resetSettings} disabled={isDefault} title="Restore the default limits">
+          <FontAwesomeIcon icon={faUndo} /> Reset to default
+        </button>
+      </div>
+
+      <div className="settings-params">
+        {FIELDS.map(({ key, label }) => (
+          <div key={key} className="form-group">
+            <label htmlFor={`settings-${key}`}>{label}</label>
+            <input
+              id={`settings-${key}`}
+              type="number"
+              min={REQUEST_SETTINGS_LIMITS[key].min}
+              max={REQUEST_SETTINGS_LIMITS[key].max}
+              step={1}
+              value={settings[key]}
+              onChange={(e) => handleChange(key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="settings-note">
+        Every request to the model, from segmentation to playground chats and eval runs, waits its turn once{' '}
+        {settings.concurrency} {settings.concurrency === 1 ? 'is' : 'are'} in flight.
+      </p>
+      <p className="settings-note">
+        Rate limits, timeouts, network failures and server errors are retried up to {settings.maxRetries} times,
+        waiting one second and doubling each time, or as long as the provider asks. Authentication, quota and content
+        filter errors are reported at once. A streamed reply is only retried before its first words arrive.
+      </p>
+      <p className="settings-note">
+        The timeout applies to each attempt; for streamed replies it is the longest wait between chunks. Set it to 0
+        to wait indefinitely.
+      </p>
+    </div>
+  );
+};
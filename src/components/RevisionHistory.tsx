@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes, faUndo } from '@fortawesome/free-solid-svg-icons';
+import { TextDiff } from './TextDiff';
+import type { SegmentRevision } from '../types';
+import { formatTimestamp } from '../utils/revisions';
+
+interface RevisionHistoryProps {
+  revisions: SegmentRevision[];
+  currentContent: string;
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  revisions,
+  currentContent,
+  onRestore,
+  onClose
+}) => {
+  // Newest first; the selected revision is compared with the current content
+  const newestFirst = [...revisions].reverse();
+  const [selectedId, setSelectedId] = useState(newestFirst.find(r => r.content !== currentContent)?.id ?? newestFirst[0]?.id);
+  const selected = revisions.find(r => r.id === selectedId);
+
+  return (
+    <div className="revision-history">
+      <div className="revision-history-header">
+        <span className="revision-history-title">Revisions</span>
+        <button onClick={onClose} className="btn-toggle" title="Close revisions">
+          <FontAwesomeIcon icon={faTimes} />
+        </button>
+      </div>
+
+      <ul className="revision-list">
+        {newestFirst.map(revision => (
+          <li
+            key={revision.id}
+            className={`revision ${revision.id === selectedId ? 'active' : ''}`}
+            onClick={() => setSelectedId(revision.id)}
+          >
+            <span className={`revision-author ${revision.author}`}>{revision.author === 'ai' ? 'AI' : 'Manual'}</span>
+            <span className="revision-label">{revision.label}</span>
+            <span className="revision-time">{formatTimestamp(revision.timestamp)}</span>
+            {revision.content === currentContent && <span className="revision-current">current</span>}
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="revision-preview">
+          <div className="revision-preview-header">
+            <small>Changes from this revision to the current text</small>
+            <button
+              onClick={() => onRestore(selected.id)}
+              className="btn-restore"
+              disabled={selected.content === currentContent}
+              title="Replace the current text with this revision; undo brings it back"
+            >
+              <FontAwesomeIcon icon={faUndo} /> Restore
+            </button>
+          </div>
+          <TextDiff before={selected.content} after={currentContent} />
+        </div>
+      )}
+    </div>
+  );
+};
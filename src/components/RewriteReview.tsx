@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faTimes, faSyncAlt, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import type { RewriteProposal } from '../types';
+import { applyHunks, diffText, groupHunks } from '../utils/diff';
+import { formatTokenCount } from '../services/tokenizer';
+import { REWRITE_OPERATIONS } from '../services/openai';
+
+interface RewriteReviewProps {
+  proposal: RewriteProposal;
+  tokenizer: Tokenizer;
+  isLoading: boolean;
+  onAccept: (content: string) => void;
+  onReject: () => void;
+  onRegenerate: () => void;
+}
+
+export const RewriteReview: React.FC<RewriteReviewProps> = ({
+  proposal,
+  tokenizer,
+  isLoading,
+  onAccept,
+  onReject,
+  onRegenerate
+}) => {
+  const chunks = useMemo(
+    () => groupHunks(diffText(proposal.original, proposal.proposed)),
+    [proposal.original, proposal.proposed]
+  );
+  const hunkCount = chunks.filter(chunk => chunk.type === 'change').length;
+  const allHunks = useMemo(() => new Set(Array.from({ length: hunkCount }, (_, i) => i)), [hunkCount]);
+
+  // Hunks start accepted; a regenerated proposal remounts this component and resets them
+  const [accepted, setAccepted] = useState<Set<number>>(allHunks);
+
+  const result = useMemo(() => applyHunks(chunks, accepted), [chunks, accepted]);
+  const originalTokens = tokenizer.countTokens(proposal.original);
+  const resultTokens = tokenizer.countTokens(result);
+  const saved = originalTokens - resultTokens;
+  const savedPercent = originalTokens > 0 ? Math.round((saved / originalTokens) * 100) : 0;
+
+  const toggleHunk = (index: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const renderSide = (side: 'removed' | 'added') =>
+    chunks.map((chunk, i) => {
+      if (chunk.type === 'equal') {
+        return <span key={i}>{chunk.text}</span>;
+      }
+      const text = chunk[side];
+      const isAccepted = accepted.has(chunk.index);
+      return (
+        <span
+          key={i}
+          className={`diff-hunk ${side} ${isAccepted ? 'accepted' : 'rejected'} ${text ? '' : 'empty'}`}
+          onClick={() => toggleHunk(chunk.index)}
+          title={isAccepted ? 'Click to keep the original wording' : 'Click to use the suggested wording'}
+        >
+          {text || '∅'}
+        </span>
+      );
+    });
+
+  return (
+    <div className="rewrite-review">
+      <div className="rewrite-review-header">
+        <span className="rewrite-review-title">
+          {REWRITE_OPERATIONS[proposal.operation].reviewTitle}
+          {proposal.instruction && <span className="rewrite-instruction">: {proposal.instruction}</span>}
+        </span>
+        {/* Only a concise rewrite is meant to save tokens; other operations may grow the text */}
+        <span className={`rewrite-savings ${proposal.operation !== 'concise' ? '' : saved > 0 ? 'positive' : 'negative'}`}>
+          {formatTokenCount(originalTokens, tokenizer.isExact)} → {formatTokenCount(resultTokens, tokenizer.isExact)}
+          {' '}({saved >= 0 ? '−' : '+'}{Math.abs(saved).toLocaleString()}, {Math.abs(savedPercent)}%)
+        </span>
+      </div>
+
+      {hunkCount === 0 ? (
+        <div className="rewrite-review-empty">The model returned the text unchanged.</div>
+      ) : (
+        <div className="rewrite-diff">
+          <div className="rewrite-diff-side">
+            <div className="rewrite-diff-label">Current</div>
+            <div className="rewrite-diff-text">{renderSide('removed')}</div>
+          </div>
+          <div className="rewrite-diff-side">
+            <div className="rewrite-diff-label">Suggested</div>
+            <div className="rewrite-diff-text">{renderSide('added')}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="rewrite-review-actions">
+        <span className="rewrite-hunk-count">
+          {accepted.size} of {hunkCount} changes selected
+        </span>
+        <button onClick={() => setAccepted(new Set(allHunks))} disabled={accepted.size === hunkCount}>
+          Select all
+        </button>
+        <button onClick={() => setAccepted(new Set())} disabled={accepted.size === 0}>
+          Select none
+        </button>
+        <button onClick={onRegenerate} disabled={isLoading} title="Ask the model for a different rewrite">
+          <FontAwesomeIcon icon={isLoading ? faSpinner : faSyncAlt} spin={isLoading} /> Regenerate
+        </button>
+        <button onClick={onReject} className="btn-reject" title="Discard the rewrite and keep the current text">
+          <FontAwesomeIcon icon={faTimes} /> Reject
+        </button>
+        <button
+          onClick={() => onAccept(result)}
+          className="btn-accept"
+          disabled={accepted.size === 0}
+          title="Apply the selected changes"
+        >
+          <FontAwesomeIcon icon={faCheck} /> {accepted.size === hunkCount ? 'Accept all' : 'Accept selected'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -8,40 +8,145 @@ import {
   useSensors
 } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy
 } from '@dnd-kit/sortable';
+import { restrictToParentElement } from '@dnd-kit/modifiers';
+import { PromptSegment, PromptSegment as SegmentType, INDENT_WIDTH } from './PromptSegment';
+import { FidelityPanel } from './FidelityPanel';
+import { AnalysisPanel } from './AnalysisPanel';
+import { OperationError } from './OperationError';
+import { BatchProgress } from './BatchProgress';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
-  restrictToVerticalAxis,
-  restrictToParentElement
-} from '@dnd-kit/modifiers';
-import { PromptSegment, PromptSegment as SegmentType } from './PromptSegment';
+  faStethoscope,
+  faObjectGroup,
+  faTimes,
+  faSpinner,
+  faEye,
+  faEyeSlash,
+  faTrash,
+  faCut,
+  faMagic
+} from '@fortawesome/free-solid-svg-icons';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import type {
+  AIOperation,
+  BatchAction,
+  BatchRun,
+  PromptAnalysis,
+  PromptOperation,
+  RevisionLog,
+  RewriteOperation,
+  RewriteOptions,
+  RewriteProposal
+} from '../types';
+import type { FidelityIssue, FidelityReport } from '../utils/fidelity';
+import { formatTokenCount } from '../services/tokenizer';
+import { formatCost } from '../services/pricing';
+import { REWRITE_OPERATIONS } from '../services/openai';
+import { buildAnalysisInput, pinFindings } from '../utils/analysis';
+import {
+  getDepths,
+  getDescendantIds,
+  moveSegment,
+  projectDrop,
+  visibleSegments
+} from '../utils/segmentTree';
+
+// Define drag events inline to avoid import issues
+interface DragStartEvent {
+  active: { id: string | number };
+}
 
-// Define DragEndEvent inline to avoid import issues
-interface DragEndEvent {
+interface DragMoveEvent {
   active: { id: string | number };
   over: { id: string | number } | null;
+  delta: { x: number; y: number };
 }
 
 interface SegmentsPanelProps {
   segments: SegmentType[];
   onReorderSegments: (segments: SegmentType[]) => void;
   onUpdateSegment: (id: string, updates: Partial<SegmentType>) => void;
-  onMakeConcise: (id: string) => void;
-  isLoading: boolean;
+  onSplitSegment: (id: string, content: string, position: number, firstTitle: string, secondTitle: string) => void;
+  onMergeSegments: (ids: string[], title: string) => void;
+  onSetIncluded: (ids: string[], isIncluded: boolean) => void;
+  onDeleteSegments: (ids: string[]) => void;
+  onRewrite: (id: string, operation: RewriteOperation, options?: RewriteOptions) => void;
+  onAcceptRewrite: (id: string, content: string) => void;
+  onRejectRewrite: (id: string) => void;
+  rewrites: Record<string, RewriteProposal>;
+  operations: Partial<Record<PromptOperation, AIOperation>>;
+  segmentOperations: Record<string, AIOperation>;
+  onDismissOperation: (type: PromptOperation) => void;
+  onDismissSegmentOperation: (id: string) => void;
+  batch: BatchRun | null;
+  canUndoBatch: boolean;
+  onRunBatch: (ids: string[], action: BatchAction, instruction?: string) => void;
+  onCancelBatch: () => void;
+  onUndoBatch: () => void;
+  onDismissBatch: () => void;
   hasApiKey: boolean;
+  tokenizer: Tokenizer;
+  originalPrompt: string;
+  fidelity: FidelityReport | null;
+  onAttachOrphan: (issue: FidelityIssue) => void;
+  onRecheckFidelity: () => void;
+  analysis: PromptAnalysis | null;
+  onAnalyze: (regenerate?: boolean) => void;
+  onDismissFinding: (id: string) => void;
+  onClearAnalysis: () => void;
+  onAddSection: (findingId: string) => void;
+  revisions: RevisionLog;
+  onRestoreRevision: (id: string, revisionId: string) => void;
 }
 
 export const SegmentsPanel: React.FC<SegmentsPanelProps> = ({
   segments,
   onReorderSegments,
   onUpdateSegment,
-  onMakeConcise,
-  isLoading,
-  hasApiKey
+  onSplitSegment,
+  onMergeSegments,
+  onSetIncluded,
+  onDeleteSegments,
+  onRewrite,
+  onAcceptRewrite,
+  onRejectRewrite,
+  rewrites,
+  operations,
+  segmentOperations,
+  onDismissOperation,
+  onDismissSegmentOperation,
+  batch,
+  canUndoBatch,
+  onRunBatch,
+  onCancelBatch,
+  onUndoBatch,
+  onDismissBatch,
+  hasApiKey,
+  tokenizer,
+  originalPrompt,
+  fidelity,
+  onAttachOrphan,
+  onRecheckFidelity,
+  analysis,
+  onAnalyze,
+  onDismissFinding,
+  onClearAnalysis,
+  onAddSection,
+  revisions,
+  onRestoreRevision
 }) => {
+  // Segments picked with Ctrl/Shift-click, separate from which ones are included
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [mergeTitle, setMergeTitle] = useState('');
+  // The batch action picked from the menu, and its instruction where it needs one
+  const [batchAction, setBatchAction] = useState<BatchAction | ''>('');
+  const [batchInstruction, setBatchInstruction] = useState('');
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -49,37 +154,121 @@ export const SegmentsPanel: React.FC<SegmentsPanelProps> = ({
     })
   );
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
+  // While dragging, the segment's subsections travel with it and are hidden from the list
+  const [drag, setDrag] = useState<{ activeId: string; overId: string | null; offsetX: number } | null>(null);
+  const depths = getDepths(segments);
+  const dragDescendants = drag ? getDescendantIds(segments, drag.activeId) : [];
+  const listed = visibleSegments(segments).filter(s => !dragDescendants.includes(s.id));
+  // Dragging sideways by one indentation step nests the segment one level deeper or shallower
+  const projection = drag?.overId
+    ? projectDrop(listed, depths, drag.activeId, drag.overId, Math.round(drag.offsetX / INDENT_WIDTH))
+    : null;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDrag({ activeId: String(event.active.id), overId: String(event.active.id), offsetX: 0 });
+  };
 
-    if (active.id !== over?.id) {
-      const oldIndex = segments.findIndex(item => item.id === active.id);
-      const newIndex = segments.findIndex(item => item.id === over?.id);
+  const handleDragMove = (event: DragMoveEvent) => {
+    setDrag({ activeId: String(event.active.id), overId: event.over ? String(event.over.id) : null, offsetX: event.delta.x });
+  };
 
-      const newSegments = arrayMove(segments, oldIndex, newIndex);
-      onReorderSegments(newSegments);
+  const handleDragEnd = () => {
+    if (drag && projection) {
+      const moved = moveSegment(segments, drag.activeId, projection);
+      const sorted = [...segments].sort((a, b) => a.order - b.order);
+      if (moved.some((s, index) => s.id !== sorted[index].id || s.parentId !== sorted[index].parentId)) {
+        onReorderSegments(moved);
+      }
     }
+    setDrag(null);
   };
 
   const includedCount = segments.filter(s => s.isIncluded).length;
   const totalCharacters = segments
     .filter(s => s.isIncluded)
     .reduce((sum, s) => sum + s.content.length, 0);
+  const totalTokens = segments
+    .filter(s => s.isIncluded)
+    .reduce((sum, s) => sum + tokenizer.countTokens(s.content), 0);
+
+  const included = segments.filter(s => s.isIncluded);
+  const analysisEstimate = hasApiKey && included.length > 0
+    ? tokenizer.estimateOperation('analyze', buildAnalysisInput(included))
+    : null;
+  const pinned = analysis ? pinFindings(analysis, segments) : {};
+  const isSegmenting = Boolean(operations.break?.isLoading);
+  const isAnalyzing = Boolean(operations.analyze?.isLoading);
+
+  // Kept in list order, and without segments that were deleted or merged away
+  const selected = segments.filter(s => selectedIds.includes(s.id));
+  const selectedIndices = selected.map(s => segments.indexOf(s));
+  const isAdjacent = selectedIndices.every((index, i) => i === 0 || index === selectedIndices[i - 1] + 1);
+  const canMerge = selected.length >= 2 && isAdjacent;
+
+  const handleSelect = (id: string, extend: boolean) => {
+    const anchorIndex = segments.findIndex(s => s.id === anchorId);
+    if (extend && anchorIndex !== -1) {
+      const index = segments.findIndex(s => s.id === id);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      setSelectedIds(segments.slice(from, to + 1).map(s => s.id));
+    } else {
+      setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+      setAnchorId(id);
+    }
+    setMergeTitle('');
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  const handleMerge = () => {
+    if (canMerge) {
+      onMergeSegments(selected.map(s => s.id), mergeTitle.trim() || selected[0].title);
+      clearSelection();
+    }
+  };
+
+  // One call so Include / Exclude All undo as a single step
+  const handleIncludeAll = () => {
+    onSetIncluded(segments.map(s => s.id), true);
+  };
+
+  const handleExcludeAll = () => {
+    onSetIncluded(segments.map(s => s.id), false);
+  };
 
   const handleSelectAll = () => {
-    segments.forEach(segment => {
-      if (!segment.isIncluded) {
-        onUpdateSegment(segment.id, { isIncluded: true });
-      }
-    });
+    setSelectedIds(segments.map(s => s.id));
+    setAnchorId(null);
+    setMergeTitle('');
   };
 
-  const handleSelectNone = () => {
-    segments.forEach(segment => {
-      if (segment.isIncluded) {
-        onUpdateSegment(segment.id, { isIncluded: false });
-      }
-    });
+  const handleDelete = () => {
+    const message = selected.length === 1
+      ? `Delete "${selected[0].title}"?`
+      : `Delete ${selected.length} selected segments?`;
+    if (window.confirm(`${message} Their subsections are kept.`)) {
+      onDeleteSegments(selected.map(s => s.id));
+      clearSelection();
+    }
+  };
+
+  const canRunBatch = hasApiKey && batch?.status !== 'running' && !isSegmenting;
+  const instructionLabel = batchAction && batchAction !== 'retitle'
+    ? REWRITE_OPERATIONS[batchAction].instructionLabel
+    : undefined;
+  const estimateBatch = (action: BatchAction) => {
+    const costs = selected.map(s => tokenizer.estimateOperation(action, s.content)?.cost ?? null);
+    return costs.some(cost => cost === null) ? null : costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0);
+  };
+
+  const handleRunBatch = (action: BatchAction) => {
+    if (!canRunBatch || (action === batchAction && instructionLabel && !batchInstruction.trim())) {
+      return;
+    }
+    onRunBatch(selected.map(s => s.id), action, action === batchAction ? batchInstruction.trim() || undefined : undefined);
   };
 
   if (segments.length === 0) {
@@ -105,51 +294,212 @@ export const SegmentsPanel: React.FC<SegmentsPanelProps> = ({
           <span className="char-count">
             {totalCharacters.toLocaleString()} characters
           </span>
+          <span className="token-count">
+            {formatTokenCount(totalTokens, tokenizer.isExact)}
+          </span>
         </div>
       </div>
 
       <div className="segments-controls">
         <div className="bulk-actions">
           <button 
-            onClick={handleSelectAll}
+            onClick={handleIncludeAll}
             className="btn-select-all"
             disabled={includedCount === segments.length}
           >
-            Select All
+            Include All
           </button>
           <button 
-            onClick={handleSelectNone}
+            onClick={handleExcludeAll}
             className="btn-select-none"
             disabled={includedCount === 0}
           >
-            Select None
+            Exclude All
+          </button>
+          <button
+            onClick={handleSelectAll}
+            className="btn-select-all"
+            disabled={selected.length === segments.length}
+            title="Select every segment for merging or batch actions"
+          >
+            Select All
           </button>
         </div>
+
+        <button
+          onClick={() => onAnalyze()}
+          className="btn-analyze"
+          disabled={!hasApiKey || isAnalyzing || isSegmenting || included.length === 0}
+          title={hasApiKey
+            ? `Check the included segments together for contradictions, duplicated rules, vague wording and missing sections${analysisEstimate ? ` (est. ${formatCost(analysisEstimate.cost)})` : ''}`
+            : 'API key required'}
+        >
+          <FontAwesomeIcon icon={isAnalyzing ? faSpinner : faStethoscope} spin={isAnalyzing} /> Analyze prompt
+        </button>
         
         <div className="segments-info">
-          <small>Tip: Drag segments to reorder • Uncheck to exclude from output</small>
+          <small>Tip: Drag segments to reorder • Uncheck to exclude from output • Ctrl/Shift-click to select</small>
         </div>
       </div>
 
+      {selected.length > 0 && (
+        <div className="selection-bar">
+          <span className="selection-count">{selected.length} selected</span>
+          <input
+            type="text"
+            value={mergeTitle}
+            onChange={(e) => setMergeTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleMerge()}
+            placeholder={selected[0].title}
+            title="Title of the merged segment"
+            disabled={!canMerge}
+          />
+          <button
+            onClick={handleMerge}
+            disabled={!canMerge}
+            title={canMerge ? 'Merge the selected segments into one' : 'Select two or more adjacent segments to merge'}
+          >
+            <FontAwesomeIcon icon={faObjectGroup} /> Merge
+          </button>
+          <button onClick={() => onSetIncluded(selected.map(s => s.id), true)} title="Include the selected segments and their subsections">
+            <FontAwesomeIcon icon={faEye} /> Include
+          </button>
+          <button onClick={() => onSetIncluded(selected.map(s => s.id), false)} title="Exclude the selected segments and their subsections">
+            <FontAwesomeIcon icon={faEyeSlash} /> Exclude
+          </button>
+          <button onClick={handleDelete} title="Delete the selected segments">
+            <FontAwesomeIcon icon={faTrash} /> Delete
+          </button>
+          <button onClick={clearSelection} className="btn-clear-selection" title="Clear the selection">
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+
+          <div className="selection-ai">
+            <button
+              onClick={() => handleRunBatch('concise')}
+              disabled={!canRunBatch}
+              title={hasApiKey
+                ? `Make every selected segment more concise with AI, applied as one undoable step (est. ${formatCost(estimateBatch('concise'))})`
+                : 'API key required'}
+            >
+              <FontAwesomeIcon icon={faCut} /> Make concise
+            </button>
+            <select
+              value={batchAction}
+              onChange={(e) => {
+                setBatchAction(e.target.value as BatchAction | '');
+                setBatchInstruction('');
+              }}
+              disabled={!canRunBatch}
+              title="Another AI action to run on every selected segment"
+            >
+              <option value="">More AI actions...</option>
+              {(Object.keys(REWRITE_OPERATIONS) as RewriteOperation[])
+                .filter(operation => operation !== 'concise')
+                .map(operation => (
+                  <option key={operation} value={operation}>{REWRITE_OPERATIONS[operation].label}</option>
+                ))}
+              <option value="retitle">Retitle from content</option>
+            </select>
+            {instructionLabel && (
+              <input
+                type="text"
+                value={batchInstruction}
+                onChange={(e) => setBatchInstruction(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && batchAction && handleRunBatch(batchAction)}
+                placeholder={batchAction && batchAction !== 'retitle' ? REWRITE_OPERATIONS[batchAction].instructionPlaceholder : ''}
+                title={instructionLabel}
+              />
+            )}
+            <button
+              onClick={() => batchAction && handleRunBatch(batchAction)}
+              disabled={!canRunBatch || !batchAction || Boolean(instructionLabel && !batchInstruction.trim())}
+              title={batchAction
+                ? `Run on ${selected.length} segments (est. ${formatCost(estimateBatch(batchAction))})`
+                : 'Pick an AI action first'}
+            >
+              <FontAwesomeIcon icon={faMagic} /> Run
+            </button>
+          </div>
+        </div>
+      )}
+
+      {batch && (
+        <BatchProgress
+          batch={batch}
+          tokenizer={tokenizer}
+          canUndo={canUndoBatch}
+          onCancel={onCancelBatch}
+          onUndo={onUndoBatch}
+          onDismiss={onDismissBatch}
+        />
+      )}
+
+      {operations.analyze?.error && (
+        <OperationError notice={operations.analyze.error} onDismiss={() => onDismissOperation('analyze')} />
+      )}
+
+      {fidelity && !isSegmenting && (
+        <FidelityPanel
+          report={fidelity}
+          originalPrompt={originalPrompt}
+          segments={segments}
+          onAttach={onAttachOrphan}
+          onRecheck={onRecheckFidelity}
+        />
+      )}
+
+      {analysis && (
+        <AnalysisPanel
+          analysis={analysis}
+          segments={segments}
+          isLoading={isAnalyzing || isSegmenting}
+          hasApiKey={hasApiKey}
+          onReanalyze={() => onAnalyze(true)}
+          onClear={onClearAnalysis}
+          onDismiss={onDismissFinding}
+          onAddSection={onAddSection}
+        />
+      )}
+
       <div className="segments-list">
         <DndContext
           sensors={sensors}
           collisionDetection={closestCenter}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragOver={handleDragMove}
           onDragEnd={handleDragEnd}
-          modifiers={[restrictToVerticalAxis, restrictToParentElement]}
+          onDragCancel={() => setDrag(null)}
+          modifiers={[restrictToParentElement]}
         >
           <SortableContext
-            items={segments.map(s => s.id)}
+            items={listed.map(s => s.id)}
             strategy={verticalListSortingStrategy}
           >
-            {segments.map((segment) => (
+            {listed.map((segment) => (
               <PromptSegment
                 key={segment.id}
                 segment={segment}
+                depth={segment.id === drag?.activeId && projection ? projection.depth : depths.get(segment.id) ?? 0}
+                childCount={segments.filter(s => s.parentId === segment.id).length}
                 onUpdate={onUpdateSegment}
-                onMakeConcise={onMakeConcise}
-                isLoading={isLoading}
+                onSplit={onSplitSegment}
+                onSelect={handleSelect}
+                isSelected={selectedIds.includes(segment.id)}
+                onRewrite={onRewrite}
+                onAcceptRewrite={onAcceptRewrite}
+                onRejectRewrite={onRejectRewrite}
+                rewrite={rewrites[segment.id]}
+                findings={pinned[segment.id]}
+                onDismissFinding={onDismissFinding}
+                onAddSection={onAddSection}
+                revisions={revisions[segment.id]}
+                onRestoreRevision={onRestoreRevision}
+                operation={segmentOperations[segment.id]}
+                onDismissError={onDismissSegmentOperation}
                 hasApiKey={hasApiKey}
+                tokenizer={tokenizer}
               />
             ))}
           </SortableContext>
@@ -161,10 +511,13 @@ export const SegmentsPanel: React.FC<SegmentsPanelProps> = ({
           <details>
             <summary>How to use segments</summary>
             <ul>
-              <li><strong>Drag & Drop:</strong> Use the drag handle to reorder segments</li>
+              <li><strong>Drag & Drop:</strong> Use the drag handle to reorder segments; drag right to nest a segment under the one above it, or left to move it out</li>
+              <li><strong>Groups:</strong> Use the arrow beside a group to collapse its subsections; including or excluding a group does the same to all of them</li>
               <li><strong>Include/Exclude:</strong> Check/uncheck to control what goes in the final output</li>
               <li><strong>Edit:</strong> Click Edit to manually edit any segment</li>
-              <li><strong>Make Concise:</strong> Click Concise to make a segment more concise with AI</li>
+              <li><strong>Make Concise:</strong> Click Concise to get a shorter version from AI, then review the diff and accept all, some or none of the changes</li>
+              <li><strong>Analyze prompt:</strong> Check the included segments together; findings appear on the segments they involve, with a Fix button that proposes an edit for review</li>
+              <li><strong>Split & merge:</strong> While editing, put the cursor where a segment should end and click Split; Ctrl/Shift-click adjacent segments and click Merge to join them</li>
               <li><strong>Order matters:</strong> The final output will follow the segment order</li>
             </ul>
           </details>
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCamera, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { TextDiff } from './TextDiff';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import type { PromptSnapshot } from '../types';
+import { formatTokenCount } from '../services/tokenizer';
+import { formatTimestamp } from '../utils/revisions';
+
+interface SnapshotsPanelProps {
+  snapshots: PromptSnapshot[];
+  // The output as it is now, offered as a side of the comparison
+  currentOutput: string;
+  tokenizer: Tokenizer;
+  onTake: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const CURRENT_ID = 'current';
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  snapshots,
+  currentOutput,
+  tokenizer,
+  onTake,
+  onDelete
+}) => {
+  const [newName, setNewName] = useState('');
+  // Defaults compare the latest snapshot with the current output
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT_ID);
+
+  const outputOf = (id: string) =>
+    id === CURRENT_ID ? currentOutput : snapshots.find(s => s.id === id)?.output;
+  const from = fromId || snapshots[snapshots.length - 1]?.id || '';
+  const before = outputOf(from);
+  const after = outputOf(toId) ?? currentOutput;
+  const tokenDelta = before === undefined ? 0 : tokenizer.countTokens(after) - tokenizer.countTokens(before);
+
+  const handleTake = () => {
+    const name = newName.trim() || `Snapshot ${snapshots.length + 1}`;
+    onTake(name);
+    setNewName('');
+  };
+
+  const handleDelete = (snapshot: PromptSnapshot) => {
+    if (window.confirm(`Delete snapshot "${snapshot.name}"?`)) {
+      if (fromId === snapshot.id) setFromId('');
+      if (toId === snapshot.id) setToId(CURRENT_ID);
+      onDelete(snapshot.id);
+    }
+  };
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT_ID}>Current output</option>
+      {snapshots.map(snapshot => (
+        <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="snapshots-panel">
+      <div className="variants-header">
+        <h2>Snapshots</h2>
+        <div className="variants-save">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && currentOutput && handleTake()}
+            placeholder={`Snapshot ${snapshots.length + 1}`}
+          />
+          <button onClick={handleTake} disabled={!currentOutput} title="Save the final output as it is now">
+            <FontAwesomeIcon icon={faCamera} /> Take snapshot
+          </button>
+        </div>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="variants-empty">
+          Take a snapshot before a round of edits, then compare it with the current output or with later snapshots.
+        </p>
+      ) : (
+        <>
+          <ul className="variant-list">
+            {[...snapshots].reverse().map(snapshot => (
+              <li key={snapshot.id} className="variant-item">
+                <div className="variant-info">
+                  <span className="variant-name">{snapshot.name}</span>
+                  <span className="variant-meta">
+                    {formatTimestamp(snapshot.createdAt)} · {formatTokenCount(tokenizer.countTokens(snapshot.output), tokenizer.isExact)}
+                  </span>
+                </div>
+                <div className="variant-actions">
+                  <button onClick={() => handleDelete(snapshot)} title="Delete">
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="snapshot-compare">
+            <label>
+              From
+              <select value={from} onChange={(e) => setFromId(e.target.value)}>{renderOptions()}</select>
+            </label>
+            <label>
+              To
+              <select value={toId} onChange={(e) => setToId(e.target.value)}>{renderOptions()}</select>
+            </label>
+            {before !== undefined && (
+              <span className={`token-delta ${tokenDelta > 0 ? 'up' : tokenDelta < 0 ? 'down' : ''}`}>
+                {tokenDelta === 0 ? 'Same token count' : `${tokenDelta > 0 ? '+' : '−'}${Math.abs(tokenDelta).toLocaleString()} tokens`}
+              </span>
+            )}
+          </div>
+
+          {before !== undefined && (before === after
+            ? <p className="variants-empty">No differences.</p>
+            : <TextDiff before={before} after={after} />)}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react';
+import { diffText } from '../utils/diff';
+
+interface TextDiffProps {
+  before: string;
+  after: string;
+}
+
+// Word diff shown inline: removed text struck through, added text highlighted
+export const TextDiff: React.FC<TextDiffProps> = ({ before, after }) => {
+  const parts = useMemo(() => diffText(before, after), [before, after]);
+
+  return (
+    <div className="text-diff">
+      {parts.map((part, index) => {
+        if (part.type === 'delete') return <del key={index}>{part.text}</del>;
+        if (part.type === 'insert') return <ins key={index}>{part.text}</ins>;
+        return <span key={index}>{part.text}</span>;
+      })}
+    </div>
+  );
+};
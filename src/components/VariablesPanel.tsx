@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faChevronDown,
+  faChevronUp,
+  faExclamationTriangle,
+  faPlus,
+  faTrash
+} from '@fortawesome/free-solid-svg-icons';
+import type { PromptSegment } from './PromptSegment';
+import type { TemplateVariable, VariableType } from '../types';
+import { analyzeVariables, VARIABLE_NAME_PATTERN } from '../utils/templateVariables';
+
+interface VariablesPanelProps {
+  segments: PromptSegment[];
+  variables: TemplateVariable[];
+  onDefine: (name: string) => void;
+  onUpdate: (name: string, updates: Partial<TemplateVariable>) => void;
+  onRemove: (name: string) => void;
+}
+
+const TYPE_LABELS: Record<VariableType, string> = {
+  text: 'Text',
+  multiline: 'Multi-line',
+  number: 'Number',
+  boolean: 'Boolean',
+  json: 'JSON'
+};
+
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  segments,
+  variables,
+  onDefine,
+  onUpdate,
+  onRemove
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [newName, setNewName] = useState('');
+
+  const report = useMemo(() => analyzeVariables(segments, variables), [segments, variables]);
+  const invalidByName = new Map(report.invalid.map(item => [item.name, item.message]));
+  const titleOf = (id: string) => segments.find(s => s.id === id)?.title ?? id;
+  const warningCount = report.undefinedNames.length + report.unusedNames.length + report.invalid.length;
+
+  const canAdd = VARIABLE_NAME_PATTERN.test(newName) && !variables.some(v => v.name === newName);
+
+  const handleAdd = () => {
+    if (canAdd) {
+      onDefine(newName);
+      setNewName('');
+    }
+  };
+
+  const renderValueInput = (variable: TemplateVariable) => {
+    const update = (defaultValue: string) => onUpdate(variable.name, { defaultValue });
+    switch (variable.type) {
+      case 'multiline':
+      case 'json':
+        return (
+          <textarea
+            value={variable.defaultValue}
+            onChange={(e) => update(e.target.value)}
+            rows={3}
+            className="variable-value"
+            placeholder={variable.type === 'json' ? '{ }' : 'Value'}
+          />
+        );
+      case 'boolean':
+        return (
+          <select
+            value={variable.defaultValue}
+            onChange={(e) => update(e.target.value)}
+            className="variable-value"
+          >
+            <option value="">Choose...</option>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        );
+      default:
+        return (
+          <input
+            type={variable.type === 'number' ? 'number' : 'text'}
+            value={variable.defaultValue}
+            onChange={(e) => update(e.target.value)}
+            className="variable-value"
+            placeholder="Value"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="variables-panel">
+      <div className="variables-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <h3>Variables</h3>
+        <span className="variables-count">{report.usages.length}</span>
+        {warningCount > 0 && (
+          <span className="variables-warning-count" title="Variables that need attention">
+            <FontAwesomeIcon icon={faExclamationTriangle} /> {warningCount}
+          </span>
+        )}
+        <button className="btn-toggle" title={isExpanded ? 'Collapse' : 'Expand'}>
+          <FontAwesomeIcon icon={isExpanded ? faChevronUp : faChevronDown} />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="variables-body">
+          {report.usages.length === 0 && (
+            <p className="variables-empty">
+              Write <code>{'{{name}}'}</code> in a segment to add a variable, or define one below.
+            </p>
+          )}
+
+          {report.usages.map(usage => (
+            <div key={usage.name} className={`variable-row ${usage.definition ? '' : 'undefined'}`}>
+              <div className="variable-row-header">
+                <code className="variable-name">{`{{${usage.name}}}`}</code>
+                {usage.definition && (
+                  <select
+                    value={usage.definition.type}
+                    onChange={(e) => onUpdate(usage.name, { type: e.target.value as VariableType })}
+                    className="variable-type"
+                  >
+                    {(Object.keys(TYPE_LABELS) as VariableType[]).map(type => (
+                      <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                )}
+                {usage.definition ? (
+                  <button onClick={() => onRemove(usage.name)} className="btn-remove-variable" title="Remove definition">
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                ) : (
+                  <button onClick={() => onDefine(usage.name)} className="btn-define-variable" title="Add a definition">
+                    <FontAwesomeIcon icon={faPlus} /> Define
+                  </button>
+                )}
+              </div>
+
+              {usage.definition && renderValueInput(usage.definition)}
+
+              {usage.segmentIds.length > 0 && (
+                <div className="variable-usage">Used in {usage.segmentIds.map(titleOf).join(', ')}</div>
+              )}
+              {!usage.definition && (
+                <div className="variable-warning">Used but not defined; it will be left as written</div>
+              )}
+              {usage.definition && usage.segmentIds.length === 0 && (
+                <div className="variable-warning">Defined but not used in any segment</div>
+              )}
+              {invalidByName.has(usage.name) && (
+                <div className="variable-warning">Value {invalidByName.get(usage.name)}</div>
+              )}
+            </div>
+          ))}
+
+          <div className="variable-add">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value.trim())}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="new_variable"
+            />
+            <button onClick={handleAdd} disabled={!canAdd}>
+              <FontAwesomeIcon icon={faPlus} /> Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faPlus,
+  faPen,
+  faTrash,
+  faCheck,
+  faSync,
+  faPaperPlane,
+  faStop
+} from '@fortawesome/free-solid-svg-icons';
+import type { PromptSegment } from './PromptSegment';
+import type { Tokenizer } from '../hooks/useTokenizer';
+import { useVariantTest } from '../hooks/useVariantTest';
+import type { AssemblyOptions, PromptVariant, TemplateVariable } from '../types';
+import { formatTokenCount } from '../services/tokenizer';
+import { renderTemplate } from '../utils/templateVariables';
+import { assembleSegments } from '../utils/assembly';
+import {
+  applyVariant,
+  matchesVariant,
+  missingSegmentIds
+} from '../utils/variants';
+
+interface VariantsPanelProps {
+  segments: PromptSegment[];
+  variants: PromptVariant[];
+  variables: TemplateVariable[];
+  hasApiKey: boolean;
+  tokenizer: Tokenizer;
+  assembly: AssemblyOptions;
+  onSave: (name: string) => void;
+  onUpdate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onApply: (id: string) => void;
+}
+
+interface VariantColumn {
+  id: string;
+  name: string;
+  segments: PromptSegment[];
+  output: string;
+  tokens: number;
+}
+
+const CURRENT_COLUMN_ID = 'current';
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta.toLocaleString()}` : `−${Math.abs(delta).toLocaleString()}`);
+
+const includedIds = (segments: PromptSegment[]) =>
+  new Set(segments.filter(s => s.isIncluded).map(s => s.id));
+
+export const VariantsPanel: React.FC<VariantsPanelProps> = ({
+  segments,
+  variants,
+  variables,
+  hasApiKey,
+  tokenizer,
+  assembly,
+  onSave,
+  onUpdate,
+  onRename,
+  onDelete,
+  onApply
+}) => {
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [testInput, setTestInput] = useState('');
+  const { replies, isRunning, run, stop } = useVariantTest();
+
+  // The current selection is always the first column and the baseline for deltas
+  const columns = useMemo((): VariantColumn[] => {
+    const toColumn = (id: string, name: string, columnSegments: PromptSegment[]): VariantColumn => {
+      const output = renderTemplate(assembleSegments(columnSegments, assembly), variables);
+      return { id, name, segments: columnSegments, output, tokens: tokenizer.countTokens(output) };
+    };
+    return [
+      toColumn(CURRENT_COLUMN_ID, 'Current', segments),
+      ...variants
+        .filter(v => compareIds.includes(v.id))
+        .map(v => toColumn(v.id, v.name, applyVariant(v, segments)))
+    ];
+  }, [segments, variants, variables, compareIds, tokenizer, assembly]);
+
+  const baseline = columns[0];
+  const baselineIds = includedIds(baseline.segments);
+  const titleOf = (id: string) => segments.find(s => s.id === id)?.title ?? id;
+
+  const handleSave = () => {
+    const name = newName.trim() || `Variant ${variants.length + 1}`;
+    onSave(name);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleDelete = (variant: PromptVariant) => {
+    if (window.confirm(`Delete variant "${variant.name}"?`)) {
+      setCompareIds(prev => prev.filter(id => id !== variant.id));
+      onDelete(variant.id);
+    }
+  };
+
+  const handleRunTest = () => {
+    void run(columns.map(column => ({ id: column.id, systemPrompt: column.output })), testInput);
+  };
+
+  return (
+    <div className="variants-panel">
+      <div className="variants-header">
+        <h2>Variants</h2>
+        <div className="variants-save">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={`Variant ${variants.length + 1}`}
+          />
+          <button onClick={handleSave} disabled={segments.length === 0} title="Save the current selection and order as a variant">
+            <FontAwesomeIcon icon={faPlus} /> Save current
+          </button>
+        </div>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="variants-empty">
+          Include and order segments the way you want, then save the selection as a variant. Save a few and tick them to compare side by side.
+        </p>
+      ) : (
+        <ul className="variant-list">
+          {variants.map(variant => {
+            const missing = missingSegmentIds(variant, segments).length;
+            const isActive = matchesVariant(variant, segments);
+            return (
+              <li key={variant.id} className={`variant-item ${isActive ? 'active' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(variant.id)}
+                  onChange={() => toggleCompare(variant.id)}
+                  title="Compare with the current selection"
+                />
+                {renamingId === variant.id ? (
+                  <div className="variant-rename">
+                    <input
+                      type="text"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onBlur={commitRename}
+                      autoFocus
+                    />
+                    <button onClick={commitRename} title="Save name">
+                      <FontAwesomeIcon icon={faCheck} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="variant-info">
+                    <span className="variant-name">{variant.name}</span>
+                    <span className="variant-meta">
+                      {variant.segmentIds.length - missing} segments
+                      {missing > 0 && ` · ${missing} deleted`}
+                      {isActive && ' · current'}
+                    </span>
+                  </div>
+                )}
+                <div className="variant-actions">
+                  <button onClick={() => onApply(variant.id)} disabled={isActive} title="Apply this selection to the segments">
+                    Apply
+                  </button>
+                  <button onClick={() => onUpdate(variant.id)} disabled={isActive} title="Replace with the current selection">
+                    <FontAwesomeIcon icon={faSync} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(variant.id);
+                      setDraftName(variant.name);
+                    }}
+                    title="Rename"
+                  >
+                    <FontAwesomeIcon icon={faPen} />
+                  </button>
+                  <button onClick={() => handleDelete(variant)} title="Delete">
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {columns.length > 1 && (
+        <>
+          <div className="variant-test">
+            <textarea
+              value={testInput}
+              onChange={(e) => setTestInput(e.target.value)}
+              placeholder={hasApiKey ? 'Test message to send under each variant' : 'Configure an AI provider to run a test message'}
+              rows={2}
+              disabled={!hasApiKey}
+            />
+            {isRunning ? (
+              <button onClick={stop} className="btn-stop" title="Stop the replies">
+                <FontAwesomeIcon icon={faStop} />
+              </button>
+            ) : (
+              <button
+                onClick={handleRunTest}
+                className="btn-send"
+                disabled={!hasApiKey || !testInput.trim()}
+                title="Run the message through each variant"
+              >
+                <FontAwesomeIcon icon={faPaperPlane} /> Run
+              </button>
+            )}
+          </div>
+
+          <div className="variant-columns" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(220px, 1fr))` }}>
+            {columns.map(column => {
+              const ids = includedIds(column.segments);
+              const added = [...ids].filter(id => !baselineIds.has(id));
+              const removed = [...baselineIds].filter(id => !ids.has(id));
+              const delta = column.tokens - baseline.tokens;
+              const reply = replies[column.id];
+              return (
+                <div key={column.id} className="variant-column">
+                  <div className="variant-column-header">
+                    <span className="variant-name">{column.name}</span>
+                    <span className="variant-meta">
+                      {formatTokenCount(column.tokens, tokenizer.isExact)}
+                      {column !== baseline && delta !== 0 && (
+                        <span className={`token-delta ${delta > 0 ? 'up' : 'down'}`}> ({formatDelta(delta)})</span>
+                      )}
+                    </span>
+                  </div>
+                  {(added.length > 0 || removed.length > 0) && (
+                    <div className="variant-changes">
+                      {added.map(id => <span key={id} className="added">+ {titleOf(id)}</span>)}
+                      {removed.map(id => <span key={id} className="removed">− {titleOf(id)}</span>)}
+                    </div>
+                  )}
+                  {reply && (
+                    <div className={`variant-reply ${reply.status}`}>
+                      {reply.reply || (reply.status === 'streaming' ? '…' : '')}
+                      {reply.status === 'stopped' && <div className="playground-note">Stopped</div>}
+                      {reply.status === 'error' && <div className="playground-note error">{reply.error}</div>}
+                      {reply.finishReason === 'length' && (
+                        <div className="playground-note">Reply cut off at the output limit</div>
+                      )}
+                    </div>
+                  )}
+                  <pre className="variant-output">{column.output || 'No segments included'}</pre>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { aiSettings } from '../services/aiSettings';
+import type { AIOperationId, AISettingsOverrides, OperationSettings } from '../types';
+
+/**
+ * The editable meta-prompts and parameters behind the editor's own AI
+ * operations. Changes are saved as they are made and apply to the next request.
+ */
+export const useAISettings = () => {
+  const [overrides, setOverrides] = useState<AISettingsOverrides>(() => aiSettings.getOverrides());
+  const [presets, setPresets] = useState(() => aiSettings.getPresets());
+
+  const updateOperation = useCallback((id: AIOperationId, patch: Partial<OperationSettings>) => {
+    const current = aiSettings.getOverrides();
+    setOverrides(aiSettings.setOverrides({ ...current, [id]: { ...current[id], ...patch } }));
+  }, []);
+
+  const resetOperation = useCallback((id: AIOperationId) => {
+    const rest = { ...aiSettings.getOverrides() };
+    delete rest[id];
+    setOverrides(aiSettings.setOverrides(rest));
+  }, []);
+
+  const resetAll = useCallback(() => {
+    setOverrides(aiSettings.setOverrides({}));
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    setPresets(aiSettings.savePreset(name));
+  }, []);
+
+  const applyPreset = useCallback((id: string) => {
+    const preset = aiSettings.getPresets().find(p => p.id === id);
+    if (preset) {
+      setOverrides(aiSettings.setOverrides(preset.overrides));
+    }
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(aiSettings.deletePreset(id));
+  }, []);
+
+  return {
+    overrides,
+    presets,
+    updateOperation,
+    resetOperation,
+    resetAll,
+    savePreset,
+    applyPreset,
+    deletePreset
+  };
+};
@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { openAIService } from '../services/openai';
+import type { ChatResult } from '../services/providers';
+import { checkAssertion, type AssertionResult } from '../utils/evaluation';
+import type { EvalCase } from '../types';
+
+const AUTO_RUN_KEY = 'prompt-editor-eval-auto-run';
+// Waits for a pause in editing before re-running automatically
+const AUTO_RUN_DELAY_MS = 2000;
+
+export interface CaseResult {
+  status: 'running' | 'done' | 'error' | 'stopped';
+  reply: string;
+  finishReason?: ChatResult['finishReason'];
+  error?: string;
+  // Keyed by assertion id; missing while a rubric is still being graded
+  assertions: Record<string, AssertionResult>;
+  // What the case ran with, to tell when the result is out of date
+  systemPrompt: string;
+  input: string;
+  checks: string;
+}
+
+// Added, edited or removed assertions make the grid out of date as much as a changed prompt
+const checksSignature = (testCase: EvalCase) =>
+  JSON.stringify(testCase.assertions.map(({ type, value }) => [type, value]));
+
+export const isStale = (result: CaseResult, testCase: EvalCase, systemPrompt: string) =>
+  result.systemPrompt !== systemPrompt ||
+  result.input !== testCase.input ||
+  result.checks !== checksSignature(testCase);
+
+const needsRun = (testCase: EvalCase, result: CaseResult | undefined, systemPrompt: string) =>
+  testCase.input.trim().length > 0 && (!result || isStale(result, testCase, systemPrompt));
+
+/**
+ * Runs eval cases one at a time under the assembled prompt: each input gets a
+ * reply, then every assertion is checked, with rubric assertions graded by the
+ * model. With auto-run on, out-of-date cases re-run after the prompt settles.
+ */
+export const useEvaluations = (systemPrompt: string, cases: EvalCase[]) => {
+  const [results, setResults] = useState<Record<string, CaseResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [autoRun, setAutoRunState] = useState(() => localStorage.getItem(AUTO_RUN_KEY) === 'true');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a run still in progress when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const setAutoRun = useCallback((enabled: boolean) => {
+    localStorage.setItem(AUTO_RUN_KEY, String(enabled));
+    setAutoRunState(enabled);
+  }, []);
+
+  const patchResult = useCallback((id: string, patch: Partial<CaseResult>) => {
+    setResults(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...patch } } : prev));
+  }, []);
+
+  const runCase = useCallback(async (testCase: EvalCase, signal: AbortSignal) => {
+    setResults(prev => ({
+      ...prev,
+      [testCase.id]: {
+        status: 'running',
+        reply: '',
+        assertions: {},
+        systemPrompt,
+        input: testCase.input,
+        checks: checksSignature(testCase)
+      }
+    }));
+
+    try {
+      const response = await openAIService.chat(systemPrompt, [{ role: 'user', content: testCase.input }], { signal });
+      const assertions: Record<string, AssertionResult> = {};
+      testCase.assertions
+        .filter(assertion => assertion.type !== 'rubric')
+        .forEach(assertion => {
+          assertions[assertion.id] = checkAssertion(assertion, response.content);
+        });
+      patchResult(testCase.id, { reply: response.content, finishReason: response.finishReason, assertions: { ...assertions } });
+
+      for (const assertion of testCase.assertions.filter(a => a.type === 'rubric')) {
+        if (!assertion.value.trim()) {
+          assertions[assertion.id] = { passed: false, detail: 'Set a rubric to grade against' };
+        } else {
+          try {
+            const verdict = await openAIService.judge(assertion.value, testCase.input, response.content, signal);
+            assertions[assertion.id] = { passed: verdict.passed, detail: verdict.reason || (verdict.passed ? 'Meets the rubric' : 'Does not meet the rubric') };
+          } catch (error) {
+            if (signal.aborted) {
+              throw error;
+            }
+            assertions[assertion.id] = { passed: false, detail: error instanceof Error ? error.message : 'Failed to grade reply' };
+          }
+        }
+        patchResult(testCase.id, { assertions: { ...assertions } });
+      }
+
+      patchResult(testCase.id, { status: 'done' });
+    } catch (error) {
+      patchResult(testCase.id, signal.aborted
+        ? { status: 'stopped' }
+        : { status: 'error', error: error instanceof Error ? error.message : 'Failed to run test' });
+    }
+  }, [systemPrompt, patchResult]);
+
+  // Runs the given cases, or every case with an input
+  const run = useCallback(async (ids?: string[]) => {
+    if (!openAIService.isInitialized() || abortRef.current) {
+      return;
+    }
+    const selected = cases.filter(c => c.input.trim() && (!ids || ids.includes(c.id)));
+    if (selected.length === 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    for (const testCase of selected) {
+      if (controller.signal.aborted) {
+        break;
+      }
+      await runCase(testCase, controller.signal);
+    }
+    abortRef.current = null;
+    setIsRunning(false);
+  }, [cases, runCase]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!autoRun || isRunning || !openAIService.isInitialized()) {
+      return;
+    }
+    const pending = cases.filter(c => needsRun(c, results[c.id], systemPrompt)).map(c => c.id);
+    if (pending.length === 0) {
+      return;
+    }
+    const timeoutId = setTimeout(() => void run(pending), AUTO_RUN_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [autoRun, isRunning, cases, results, systemPrompt, run]);
+
+  return {
+    results,
+    isRunning,
+    autoRun,
+    setAutoRun,
+    run,
+    stop
+  };
+};
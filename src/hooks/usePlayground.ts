@@ -0,0 +1,166 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { openAIService } from '../services/openai';
+import type { ChatMessage, ChatResult } from '../services/providers';
+
+export interface PlaygroundTurn {
+  user: string;
+  reply: string;
+  status: 'streaming' | 'done' | 'stopped' | 'error';
+  finishReason?: ChatResult['finishReason'];
+  error?: string;
+}
+
+export interface PlaygroundRun {
+  id: string;
+  number: number;
+  // The assembled prompt the run was sent with
+  systemPrompt: string;
+  startedAt: number;
+  turns: PlaygroundTurn[];
+}
+
+const toMessages = (turns: PlaygroundTurn[], user: string): ChatMessage[] => [
+  ...turns.flatMap((turn): ChatMessage[] => [
+    { role: 'user', content: turn.user },
+    { role: 'assistant', content: turn.reply }
+  ]),
+  { role: 'user', content: user }
+];
+
+/**
+ * Conversations with the model under the assembled prompt. Each run is pinned
+ * to the prompt it started with; once the prompt changes, the next message
+ * starts a new run, and any run can be replayed against the current prompt.
+ */
+export const usePlayground = (systemPrompt: string) => {
+  const [runs, setRuns] = useState<PlaygroundRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const runsRef = useRef<PlaygroundRun[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    runsRef.current = runs;
+  }, [runs]);
+
+  // Stop any reply still streaming when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const patchTurn = useCallback((runId: string, index: number, patch: (turn: PlaygroundTurn) => Partial<PlaygroundTurn>) => {
+    setRuns(prev => prev.map(run => run.id === runId
+      ? { ...run, turns: run.turns.map((turn, i) => (i === index ? { ...turn, ...patch(turn) } : turn)) }
+      : run));
+  }, []);
+
+  // Streams one reply into the run and returns the finished turn, or null if it failed or was stopped
+  const streamTurn = useCallback(async (
+    run: PlaygroundRun,
+    history: PlaygroundTurn[],
+    user: string,
+    signal: AbortSignal
+  ): Promise<PlaygroundTurn | null> => {
+    // The run may also hold stopped or failed turns that are left out of the history
+    const index = runsRef.current.find(r => r.id === run.id)?.turns.length ?? history.length;
+    const append = (runs: PlaygroundRun[]) => runs.map(r => r.id === run.id
+      ? { ...r, turns: [...r.turns, { user, reply: '', status: 'streaming' as const }] }
+      : r);
+    setRuns(append);
+    runsRef.current = append(runsRef.current);
+
+    try {
+      const result = await openAIService.chat(run.systemPrompt, toMessages(history, user), {
+        signal,
+        onDelta: (delta) => patchTurn(run.id, index, turn => ({ reply: turn.reply + delta }))
+      });
+      const turn: PlaygroundTurn = { user, reply: result.content, status: 'done', finishReason: result.finishReason };
+      patchTurn(run.id, index, () => turn);
+      return turn;
+    } catch (error) {
+      if (signal.aborted) {
+        patchTurn(run.id, index, () => ({ status: 'stopped' }));
+      } else {
+        patchTurn(run.id, index, () => ({
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to get a response'
+        }));
+      }
+      return null;
+    }
+  }, [patchTurn]);
+
+  const startRun = useCallback((prompt: string): PlaygroundRun => {
+    const previous = runsRef.current;
+    const run: PlaygroundRun = {
+      id: `run-${Date.now()}`,
+      number: (previous[previous.length - 1]?.number ?? 0) + 1,
+      systemPrompt: prompt,
+      startedAt: Date.now(),
+      turns: []
+    };
+    setRuns([...previous, run]);
+    runsRef.current = [...previous, run];
+    return run;
+  }, []);
+
+  const sendMessage = useCallback(async (message: string) => {
+    const text = message.trim();
+    if (!text || !openAIService.isInitialized() || abortRef.current) {
+      return;
+    }
+
+    const current = runsRef.current[runsRef.current.length - 1];
+    const run = current && current.systemPrompt === systemPrompt ? current : startRun(systemPrompt);
+    // Only finished turns are sent back as history
+    const history = run.turns.filter(turn => turn.status === 'done');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    await streamTurn({ ...run, turns: history }, history, text, controller.signal);
+    abortRef.current = null;
+    setIsRunning(false);
+  }, [systemPrompt, startRun, streamTurn]);
+
+  // Replays a run's user messages one by one against the current prompt
+  const rerun = useCallback(async (runId: string) => {
+    const source = runsRef.current.find(run => run.id === runId);
+    if (!source || source.turns.length === 0 || !openAIService.isInitialized() || abortRef.current) {
+      return;
+    }
+
+    const run = startRun(systemPrompt);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    const history: PlaygroundTurn[] = [];
+    for (const turn of source.turns) {
+      const result = await streamTurn(run, history, turn.user, controller.signal);
+      if (!result) {
+        break;
+      }
+      history.push(result);
+    }
+
+    abortRef.current = null;
+    setIsRunning(false);
+  }, [systemPrompt, startRun, streamTurn]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(() => {
+    abortRef.current?.abort();
+    setRuns([]);
+    runsRef.current = [];
+  }, []);
+
+  return {
+    runs,
+    isRunning,
+    sendMessage,
+    rerun,
+    stop,
+    clear
+  };
+};
@@ -0,0 +1,314 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { createProject, projectStore, toSummary } from '../services/projectStore';
+import { downloadProjectFile, type ImportedProject, type ProjectFileSettings } from '../services/projectFile';
+import type { AppState, Project, ProjectSummary } from '../types';
+
+const ACTIVE_PROJECT_KEY = 'prompt-editor-active-project';
+const AUTOSAVE_DELAY_MS = 1000;
+const DEFAULT_PROJECT_NAME = 'Untitled prompt';
+
+type ProjectContent = Pick<Project, 'originalPrompt' | 'segments' | 'history' | 'variables' | 'variants' | 'evalCases' | 'assembly' | 'revisions' | 'snapshots'>;
+type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt'>;
+
+/**
+ * Keeps the editor's document in sync with a library of projects in IndexedDB.
+ * The open project is saved shortly after every change and before switching away.
+ */
+export const useProjects = (
+  state: AppState,
+  loadProject: (project: Project) => void,
+  onError: (message: string) => void
+) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+
+  const activeRef = useRef<ProjectMeta | null>(null);
+  // The content as last saved or loaded, compared by reference to skip no-op saves
+  const savedRef = useRef<ProjectContent | null>(null);
+  const contentRef = useRef<ProjectContent>(state);
+  const initializedRef = useRef(false);
+
+  useEffect(() => {
+    contentRef.current = {
+      originalPrompt: state.originalPrompt,
+      segments: state.segments,
+      history: state.history,
+      variables: state.variables,
+      variants: state.variants,
+      evalCases: state.evalCases,
+      assembly: state.assembly,
+      revisions: state.revisions,
+      snapshots: state.snapshots
+    };
+  }, [
+    state.originalPrompt,
+    state.segments,
+    state.history,
+    state.variables,
+    state.variants,
+    state.evalCases,
+    state.assembly,
+    state.revisions,
+    state.snapshots
+  ]);
+
+  const reportError = useCallback((action: string, error: unknown) => {
+    console.error(`Failed to ${action}:`, error);
+    onError(`Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }, [onError]);
+
+  const refreshList = useCallback(async () => {
+    setProjects(await projectStore.list());
+  }, []);
+
+  const activate = useCallback((project: Project) => {
+    activeRef.current = { id: project.id, name: project.name, createdAt: project.createdAt };
+    savedRef.current = {
+      originalPrompt: project.originalPrompt,
+      segments: project.segments,
+      history: project.history,
+      variables: project.variables,
+      variants: project.variants,
+      evalCases: project.evalCases,
+      assembly: project.assembly,
+      revisions: project.revisions,
+      snapshots: project.snapshots
+    };
+    localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+    setActiveProjectId(project.id);
+    loadProject(project);
+  }, [loadProject]);
+
+  // Writes the open project if it changed since it was last saved or loaded
+  const flush = useCallback(async () => {
+    const meta = activeRef.current;
+    const content = contentRef.current;
+    const saved = savedRef.current;
+    if (!meta || (saved &&
+      saved.originalPrompt === content.originalPrompt &&
+      saved.segments === content.segments &&
+      saved.history === content.history &&
+      saved.variables === content.variables &&
+      saved.variants === content.variants &&
+      saved.evalCases === content.evalCases &&
+      saved.assembly === content.assembly &&
+      saved.revisions === content.revisions &&
+      saved.snapshots === content.snapshots)) {
+      return;
+    }
+
+    const project: Project = { ...meta, ...content, updatedAt: Date.now() };
+    // Marked saved up front so an overlapping flush does not write the same content twice
+    savedRef.current = content;
+    try {
+      await projectStore.save(project);
+    } catch (error) {
+      // Left unsaved so the next autosave, or the flush before switching projects, tries again
+      if (savedRef.current === content) {
+        savedRef.current = saved;
+      }
+      throw error;
+    }
+    setProjects(prev => [toSummary(project), ...prev.filter(p => p.id !== project.id)]);
+  }, []);
+
+  // Load the last open project on mount, importing the old single session first
+  useEffect(() => {
+    if (initializedRef.current) {
+      return;
+    }
+    initializedRef.current = true;
+
+    const initialize = async () => {
+      try {
+        const migrated = await projectStore.migrateLegacySession();
+        const list = await projectStore.list();
+        const preferredId = migrated?.id ?? localStorage.getItem(ACTIVE_PROJECT_KEY);
+        let project = preferredId ? await projectStore.get(preferredId) : null;
+        if (!project && list.length > 0) {
+          project = await projectStore.get(list[0].id);
+        }
+        if (!project) {
+          project = createProject(DEFAULT_PROJECT_NAME);
+          await projectStore.save(project);
+          list.unshift(toSummary(project));
+        }
+        setProjects(list);
+        activate(project);
+      } catch (error) {
+        reportError('load projects', error);
+      }
+    };
+    void initialize();
+  }, [activate, reportError]);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!activeProjectId) {
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      flush().catch(error => reportError('save project', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [
+    state.originalPrompt,
+    state.segments,
+    state.history,
+    state.variables,
+    state.variants,
+    state.evalCases,
+    state.assembly,
+    state.revisions,
+    state.snapshots,
+    activeProjectId,
+    flush,
+    reportError
+  ]);
+
+  // Last chance to save edits made within the autosave delay
+  useEffect(() => {
+    const handlePageHide = () => {
+      void flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flush]);
+
+  const openProject = useCallback(async (id: string) => {
+    if (id === activeRef.current?.id) {
+      return;
+    }
+    try {
+      await flush();
+      const project = await projectStore.get(id);
+      if (!project) {
+        throw new Error('Project not found');
+      }
+      activate(project);
+    } catch (error) {
+      reportError('open project', error);
+    }
+  }, [flush, activate, reportError]);
+
+  const newProject = useCallback(async (name = DEFAULT_PROJECT_NAME) => {
+    try {
+      await flush();
+      const project = createProject(name);
+      await projectStore.save(project);
+      setProjects(prev => [toSummary(project), ...prev]);
+      activate(project);
+    } catch (error) {
+      reportError('create project', error);
+    }
+  }, [flush, activate, reportError]);
+
+  const renameProject = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    try {
+      if (id === activeRef.current?.id) {
+        // Save the open project's latest content along with the new name
+        activeRef.current = { ...activeRef.current, name: trimmed };
+        savedRef.current = null;
+        await flush();
+      } else {
+        const project = await projectStore.get(id);
+        if (!project) {
+          throw new Error('Project not found');
+        }
+        await projectStore.save({ ...project, name: trimmed, updatedAt: Date.now() });
+        await refreshList();
+      }
+    } catch (error) {
+      reportError('rename project', error);
+    }
+  }, [flush, refreshList, reportError]);
+
+  const duplicateProject = useCallback(async (id: string) => {
+    try {
+      await flush();
+      const copy = await projectStore.duplicate(id);
+      if (!copy) {
+        throw new Error('Project not found');
+      }
+      setProjects(prev => [toSummary(copy), ...prev]);
+      activate(copy);
+    } catch (error) {
+      reportError('duplicate project', error);
+    }
+  }, [flush, activate, reportError]);
+
+  // Deleting the open project switches to the most recent remaining one, or a new empty one
+  const deleteProject = useCallback(async (id: string) => {
+    const wasActive = id === activeRef.current?.id;
+    if (wasActive) {
+      // Stop a pending autosave from writing the deleted project back
+      activeRef.current = null;
+    }
+    try {
+      await projectStore.delete(id);
+      const list = await projectStore.list();
+      if (wasActive) {
+        let next = list.length > 0 ? await projectStore.get(list[0].id) : null;
+        if (!next) {
+          next = createProject(DEFAULT_PROJECT_NAME);
+          await projectStore.save(next);
+          list.unshift(toSummary(next));
+        }
+        activate(next);
+      }
+      setProjects(list);
+    } catch (error) {
+      reportError('delete project', error);
+    }
+  }, [activate, reportError]);
+
+  // Imported files always become a new project so nothing in the library is overwritten
+  const importProject = useCallback(async (imported: ImportedProject) => {
+    try {
+      await flush();
+      const project = createProject(imported.name, {
+        originalPrompt: imported.originalPrompt,
+        segments: imported.segments,
+        variables: imported.variables,
+        variants: imported.variants,
+        evalCases: imported.evalCases,
+        assembly: imported.assembly,
+        snapshots: imported.snapshots
+      });
+      await projectStore.save(project);
+      setProjects(prev => [toSummary(project), ...prev]);
+      activate(project);
+    } catch (error) {
+      reportError('import project', error);
+    }
+  }, [flush, activate, reportError]);
+
+  const exportProject = useCallback(async (id: string, settings: ProjectFileSettings) => {
+    try {
+      await flush();
+      const project = await projectStore.get(id);
+      if (!project) {
+        throw new Error('Project not found');
+      }
+      downloadProjectFile(project, settings);
+    } catch (error) {
+      reportError('export project', error);
+    }
+  }, [flush, reportError]);
+
+  return {
+    projects,
+    activeProjectId,
+    openProject,
+    newProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    importProject,
+    exportProject
+  };
+};
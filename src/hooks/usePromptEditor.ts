@@ -1,30 +1,135 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { PromptSegment } from '../components/PromptSegment';
-import { openAIService } from '../services/openai';
+import { openAIService, REWRITE_OPERATIONS } from '../services/openai';
+import { toErrorNotice } from '../services/aiErrors';
+import { segmentStructurally } from '../services/structuralSegmenter';
+import { attachDroppedSpan, checkFidelity, type FidelityIssue } from '../utils/fidelity';
+import {
+  emptyHistory,
+  recordChange,
+  redoChange,
+  undoChange,
+  type EditorDocument,
+  type HistoryKind
+} from '../utils/history';
+import { renderTemplate } from '../utils/templateVariables';
+import { applyVariant, captureVariant } from '../utils/variants';
+import { assembleSegments, DEFAULT_ASSEMBLY } from '../utils/assembly';
+import { createSnapshot, formatTimestamp, recordRevisions } from '../utils/revisions';
+import { getDescendantIds, normalizeTree } from '../utils/segmentTree';
+import { createEvalCase } from '../utils/evaluation';
+import { createAnalysis } from '../utils/analysis';
+import type {
+  AIOperation,
+  AppState,
+  AssemblyOptions,
+  BatchAction,
+  EvalCase,
+  OpenAIConfig,
+  Project,
+  PromptOperation,
+  RewriteOperation,
+  RewriteOptions,
+  SegmentationMode,
+  TemplateVariable
+} from '../types';
 
-interface OpenAIConfig {
-  apiKey: string;
-  model: 'gpt-5-mini' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
-}
+const SEGMENTATION_MODE_KEY = 'prompt-editor-segmentation-mode';
 
-interface AppState {
-  originalPrompt: string;
-  segments: PromptSegment[];
-  finalOutput: string;
-  isLoading: boolean;
-  error: string | null;
-}
+// Applies a change to the prompt or segments and records it as one undoable step.
+// Segment content changes are also logged as revisions, except when re-segmenting replaces them all.
+const commitChange = (
+  prev: AppState,
+  label: string,
+  kind: HistoryKind,
+  next: Partial<EditorDocument>,
+  before: EditorDocument = prev
+): AppState => {
+  const document: EditorDocument = {
+    originalPrompt: next.originalPrompt ?? prev.originalPrompt,
+    segments: next.segments ?? prev.segments
+  };
+  return {
+    ...prev,
+    ...document,
+    history: recordChange(prev.history, label, kind, before, document),
+    revisions: kind === 'segment'
+      ? prev.revisions
+      : recordRevisions(prev.revisions, before.segments, document.segments, label, kind === 'ai' ? 'ai' : 'manual')
+  };
+};
+
+const describeUpdate = (segment: PromptSegment, updates: Partial<PromptSegment>): [string, HistoryKind] => {
+  if (updates.isIncluded !== undefined && updates.isIncluded !== segment.isIncluded) {
+    return [`${updates.isIncluded ? 'Include' : 'Exclude'} "${segment.title}"`, 'include'];
+  }
+  if (updates.title !== undefined && updates.title !== segment.title) {
+    return [`Rename "${segment.title}"`, 'edit'];
+  }
+  return [`Edit "${segment.title}"`, 'edit'];
+};
+
+const running = (type: AIOperation['type']): AIOperation => ({ type, isLoading: true, error: null });
+
+const failed = (type: AIOperation['type'], error: unknown, fallback: string): AIOperation => ({
+  type,
+  isLoading: false,
+  error: toErrorNotice(error, fallback)
+});
+
+const omit = <R extends Record<string, AIOperation>>(record: R, key: string): R => {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+};
+
+const undoLatest = (prev: AppState): AppState => {
+  const result = prev.segmentation ? null : undoChange(prev.history, prev);
+  if (!result) {
+    return prev;
+  }
+  return {
+    ...prev,
+    ...result.document,
+    history: result.history,
+    fidelity: prev.fidelity && checkFidelity(result.document.originalPrompt, result.document.segments)
+  };
+};
 
 export const usePromptEditor = () => {
   const [state, setState] = useState<AppState>({
     originalPrompt: '',
     segments: [],
     finalOutput: '',
-    isLoading: false,
-    error: null
+    error: null,
+    operations: {},
+    segmentOperations: {},
+    batch: null,
+    segmentation: null,
+    fidelity: null,
+    history: emptyHistory(),
+    rewrites: {},
+    analysis: null,
+    variables: [],
+    variants: [],
+    evalCases: [],
+    assembly: DEFAULT_ASSEMBLY,
+    revisions: {},
+    snapshots: []
   });
+  const segmentationAbortRef = useRef<AbortController | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   const [config, setConfig] = useState<OpenAIConfig | null>(null);
+  const [segmentationMode, setSegmentationModeState] = useState<SegmentationMode>(() =>
+    localStorage.getItem(SEGMENTATION_MODE_KEY) === 'structural' ? 'structural' : 'ai'
+  );
+
+  const setSegmentationMode = useCallback((mode: SegmentationMode) => {
+    localStorage.setItem(SEGMENTATION_MODE_KEY, mode);
+    setSegmentationModeState(mode);
+  }, []);
 
   // Initialize OpenAI service when config changes
   useEffect(() => {
@@ -36,57 +141,205 @@ export const usePromptEditor = () => {
   // Update final output whenever segments change
   useEffect(() => {
     updateFinalOutput();
-  }, [state.segments]);
+  }, [state.segments, state.assembly]);
 
   const updateFinalOutput = useCallback(() => {
-    const includedSegments = state.segments
-      .filter(s => s.isIncluded)
-      .sort((a, b) => a.order - b.order);
-    
-    const output = includedSegments.map(s => s.content).join('\n\n');
+    const output = assembleSegments(state.segments, state.assembly);
     setState(prev => ({ ...prev, finalOutput: output }));
-  }, [state.segments]);
+  }, [state.segments, state.assembly]);
 
+  // Editing the prompt keeps the segments; re-segmenting replaces them as an undoable step
   const setOriginalPrompt = useCallback((prompt: string) => {
     setState(prev => ({
-      ...prev,
-      originalPrompt: prompt,
-      segments: [],
-      finalOutput: '',
-      error: null
+      ...commitChange(prev, 'Edit prompt', 'prompt', { originalPrompt: prompt }),
+      error: null,
+      fidelity: null
     }));
   }, []);
 
   const breakPromptIntoSegments = useCallback(async () => {
-    if (!state.originalPrompt.trim() || !openAIService.isInitialized()) {
+    if (!state.originalPrompt.trim()) {
+      return;
+    }
+
+    if (segmentationMode === 'structural') {
+      setState(prev => {
+        const segments = segmentStructurally(prev.originalPrompt);
+        return {
+          ...commitChange(prev, 'Break into segments', 'segment', { segments }),
+          error: null,
+          fidelity: checkFidelity(prev.originalPrompt, segments)
+        };
+      });
       return;
     }
 
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    if (!openAIService.isInitialized()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    segmentationAbortRef.current = controller;
+    // Streamed segments replace these once the first arrives; the whole run is recorded as one step
+    const previousSegments = state.segments;
+    let streamed = false;
+    // Opening another project during the run replaces the controller; what arrives after that belongs to the old project
+    const superseded = () => segmentationAbortRef.current !== controller;
+
+    setState(prev => ({
+      ...prev,
+      error: null,
+      operations: { ...prev.operations, break: running('break') },
+      fidelity: null,
+      segmentation: { receivedChars: 0, expectedChars: prev.originalPrompt.length, segmentCount: 0 }
+    }));
 
     try {
-      const segments = await openAIService.breakPromptIntoSegments(state.originalPrompt);
+      const segments = await openAIService.breakPromptIntoSegments(state.originalPrompt, {
+        signal: controller.signal,
+        onProgress: ({ segments, receivedChars, expectedChars }) => {
+          if (superseded()) {
+            return;
+          }
+          streamed = streamed || segments.length > 0;
+          setState(prev => ({
+            ...prev,
+            ...(streamed && { segments }),
+            segmentation: { receivedChars, expectedChars, segmentCount: segments.length }
+          }));
+        },
+        onWarning: (message) => {
+          if (!superseded()) {
+            setState(prev => ({ ...prev, error: { message } }));
+          }
+        }
+      });
+      if (superseded()) {
+        return;
+      }
+      // Cancelled before anything arrived: the old segments stay and nothing is recorded
+      if (segments.length === 0) {
+        setState(prev => ({
+          ...prev,
+          segments: previousSegments,
+          operations: omit(prev.operations, 'break'),
+          segmentation: null
+        }));
+        return;
+      }
       setState(prev => ({
-        ...prev,
-        segments,
-        isLoading: false
+        ...commitChange(prev, 'Break into segments', 'segment', { segments }, {
+          originalPrompt: prev.originalPrompt,
+          segments: previousSegments
+        }),
+        operations: omit(prev.operations, 'break'),
+        segmentation: null,
+        fidelity: checkFidelity(prev.originalPrompt, segments)
       }));
     } catch (error) {
+      if (superseded()) {
+        return;
+      }
+      // Segments that streamed in before the failure stay visible; otherwise the old ones are kept
       setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to break prompt into segments'
+        ...(streamed
+          ? commitChange(prev, 'Break into segments', 'segment', {}, {
+            originalPrompt: prev.originalPrompt,
+            segments: previousSegments
+          })
+          : { ...prev, segments: previousSegments }),
+        operations: { ...prev.operations, break: failed('break', error, 'Failed to break prompt into segments') },
+        segmentation: null
       }));
+    } finally {
+      if (segmentationAbortRef.current === controller) {
+        segmentationAbortRef.current = null;
+      }
     }
-  }, [state.originalPrompt]);
+  }, [state.originalPrompt, state.segments, segmentationMode]);
 
+  const cancelSegmentation = useCallback(() => {
+    segmentationAbortRef.current?.abort();
+  }, []);
+
+  const checkSegmentFidelity = useCallback(() => {
+    setState(prev => ({ ...prev, fidelity: checkFidelity(prev.originalPrompt, prev.segments) }));
+  }, []);
+
+  const attachOrphanedSpan = useCallback((issue: FidelityIssue) => {
+    setState(prev => {
+      // Re-check first so the insertion offset matches the segments as they are now
+      const current = checkFidelity(prev.originalPrompt, prev.segments).issues.find(candidate =>
+        candidate.kind === 'dropped' &&
+        candidate.attach &&
+        candidate.originalSpan?.start === issue.originalSpan?.start
+      );
+      if (!current?.attach) {
+        return { ...prev, fidelity: checkFidelity(prev.originalPrompt, prev.segments) };
+      }
+
+      const segments = prev.segments.map(segment =>
+        segment.id === current.attach?.segmentId
+          ? { ...segment, content: attachDroppedSpan(segment, current) }
+          : segment
+      );
+      return {
+        ...commitChange(prev, 'Attach dropped text', 'fidelity', { segments }),
+        fidelity: checkFidelity(prev.originalPrompt, segments)
+      };
+    });
+  }, []);
+
+  // Expand/edit toggles go through here too but only content changes are recorded.
+  // Including or excluding a group does the same to all of its subsections.
   const updateSegment = useCallback((id: string, updates: Partial<PromptSegment>) => {
-    setState(prev => ({
-      ...prev,
-      segments: prev.segments.map(segment =>
-        segment.id === id ? { ...segment, ...updates } : segment
-      )
-    }));
+    setState(prev => {
+      const segment = prev.segments.find(s => s.id === id);
+      if (!segment) {
+        return prev;
+      }
+      const [label, kind] = describeUpdate(segment, updates);
+      const cascade = updates.isIncluded !== undefined ? getDescendantIds(prev.segments, id) : [];
+      const segments = prev.segments.map(s => {
+        if (s.id === id) return { ...s, ...updates };
+        if (cascade.includes(s.id)) return { ...s, isIncluded: updates.isIncluded! };
+        return s;
+      });
+      return commitChange(prev, cascade.length > 0 ? `${label} and its subsections` : label, kind, { segments });
+    });
+  }, []);
+
+  // Subsections follow their group, as when including or excluding one segment
+  const setSegmentsIncluded = useCallback((ids: string[], isIncluded: boolean) => {
+    setState(prev => {
+      const affected = new Set(ids.flatMap(id => [id, ...getDescendantIds(prev.segments, id)]));
+      const segments = prev.segments.map(segment =>
+        affected.has(segment.id) ? { ...segment, isIncluded } : segment
+      );
+      return commitChange(prev, isIncluded ? 'Include segments' : 'Exclude segments', 'include', { segments });
+    });
+  }, []);
+
+  // Subsections of a deleted segment move up to its parent rather than being deleted with it
+  const deleteSegments = useCallback((ids: string[]) => {
+    setState(prev => {
+      const deleting = prev.segments.filter(s => ids.includes(s.id));
+      if (deleting.length === 0) {
+        return prev;
+      }
+      const parentOf = new Map(prev.segments.map(s => [s.id, s.parentId]));
+      const survivingParent = (parentId: string | undefined): string | undefined =>
+        parentId && ids.includes(parentId) ? survivingParent(parentOf.get(parentId)) : parentId;
+      const segments = normalizeTree(
+        prev.segments
+          .filter(s => !ids.includes(s.id))
+          .map((s, order) => ({ ...s, order, parentId: survivingParent(s.parentId) }))
+      );
+      const rewrites = { ...prev.rewrites };
+      deleting.forEach(s => delete rewrites[s.id]);
+      const label = deleting.length === 1 ? `Delete "${deleting[0].title}"` : `Delete ${deleting.length} segments`;
+      return { ...commitChange(prev, label, 'edit', { segments }), rewrites };
+    });
   }, []);
 
   const reorderSegments = useCallback((newSegments: PromptSegment[]) => {
@@ -96,90 +349,589 @@ export const usePromptEditor = () => {
       order: index
     }));
 
+    setState(prev => commitChange(prev, 'Reorder segments', 'reorder', { segments: reorderedSegments }));
+  }, []);
+
+  // Splits the text being edited at a character offset; the second part becomes a new segment right after it
+  const splitSegment = useCallback((
+    id: string,
+    content: string,
+    position: number,
+    firstTitle: string,
+    secondTitle: string
+  ) => {
+    setState(prev => {
+      const index = prev.segments.findIndex(s => s.id === id);
+      const before = content.slice(0, position).trimEnd();
+      const after = content.slice(position).trimStart();
+      if (index === -1 || !before || !after) {
+        return prev;
+      }
+      const segment = prev.segments[index];
+      const first: PromptSegment = { ...segment, title: firstTitle, content: before, isEditing: false };
+      const second: PromptSegment = {
+        ...segment,
+        id: `segment-${Date.now()}-${index + 1}`,
+        title: secondTitle,
+        content: after,
+        isEditing: false
+      };
+      // Subsections followed the end of the text, so they now belong to the second part
+      const segments = [...prev.segments.slice(0, index), first, second, ...prev.segments.slice(index + 1)]
+        .map((s, order) => ({ ...s, order, ...(s.parentId === id && { parentId: second.id }) }));
+      const rewrites = { ...prev.rewrites };
+      delete rewrites[id];
+      return { ...commitChange(prev, `Split "${segment.title}"`, 'edit', { segments }), rewrites };
+    });
+  }, []);
+
+  // Merges adjacent segments into the first of them, joined by blank lines; their subsections move to the merged one
+  const mergeSegments = useCallback((ids: string[], title: string) => {
+    setState(prev => {
+      const indices = prev.segments
+        .map((s, index) => (ids.includes(s.id) ? index : -1))
+        .filter(index => index !== -1);
+      const isAdjacent = indices.every((index, i) => i === 0 || index === indices[i - 1] + 1);
+      if (indices.length < 2 || !isAdjacent) {
+        return prev;
+      }
+      const merging = indices.map(index => prev.segments[index]);
+      const merged: PromptSegment = {
+        ...merging[0],
+        title,
+        content: merging.map(s => s.content.trim()).join('\n\n'),
+        isIncluded: merging.some(s => s.isIncluded),
+        isEditing: false
+      };
+      const mergedIds = merging.map(s => s.id);
+      const segments = normalizeTree(
+        [...prev.segments.slice(0, indices[0]), merged, ...prev.segments.slice(indices[indices.length - 1] + 1)]
+          .map((s, order) => ({ ...s, order, ...(s.parentId && mergedIds.includes(s.parentId) && { parentId: merged.id }) }))
+      );
+      const rewrites = { ...prev.rewrites };
+      merging.forEach(s => delete rewrites[s.id]);
+      return { ...commitChange(prev, `Merge ${merging.length} segments`, 'edit', { segments }), rewrites };
+    });
+  }, []);
+
+  // The rewrite is held for review; nothing changes until it is accepted
+  const rewriteSegment = useCallback(async (
+    segmentId: string,
+    operation: RewriteOperation,
+    options: RewriteOptions = {}
+  ) => {
+    const segment = state.segments.find(s => s.id === segmentId);
+    if (!segment || state.segmentOperations[segmentId]?.isLoading || !openAIService.isInitialized()) {
+      return;
+    }
+
+    // Each segment tracks its own request, so several can be rewritten at once
     setState(prev => ({
       ...prev,
-      segments: reorderedSegments
+      segmentOperations: { ...prev.segmentOperations, [segmentId]: running(operation) }
     }));
+
+    try {
+      const proposed = await openAIService.rewriteSegment(operation, segment.content, {
+        instruction: options.instruction,
+        bypassCache: options.regenerate
+      });
+      setState(prev => ({
+        ...prev,
+        segmentOperations: omit(prev.segmentOperations, segmentId),
+        rewrites: {
+          ...prev.rewrites,
+          [segmentId]: { operation, instruction: options.instruction, original: segment.content, proposed }
+        }
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        segmentOperations: {
+          ...prev.segmentOperations,
+          [segmentId]: failed(operation, error, `Failed to ${REWRITE_OPERATIONS[operation].label.toLowerCase()}`)
+        }
+      }));
+    }
+  }, [state.segments, state.segmentOperations]);
+
+  /**
+   * Runs one AI action over several segments at once. Unlike a single rewrite
+   * there is no review: the results are applied together as one undoable step
+   * when the last request finishes, skipping segments edited in the meantime.
+   * Cancelling applies what has already come back.
+   */
+  const runBatch = useCallback(async (ids: string[], action: BatchAction, instruction?: string) => {
+    const targets = state.segments.filter(s => ids.includes(s.id) && !state.segmentOperations[s.id]?.isLoading);
+    if (targets.length === 0 || state.batch?.status === 'running' || !openAIService.isInitialized()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const batchId = `batch-${Date.now()}`;
+    const field = action === 'retitle' ? 'title' : 'content';
+    const actionLabel = action === 'retitle' ? 'Retitle' : REWRITE_OPERATIONS[action].label;
+    const label = `${actionLabel} (${targets.length} segments)`;
+    const before = Object.fromEntries(targets.map(s => [s.id, s[field]]));
+
+    setState(prev => ({
+      ...prev,
+      batch: {
+        id: batchId,
+        action,
+        ...(instruction && { instruction }),
+        label,
+        segmentIds: targets.map(s => s.id),
+        completed: 0,
+        failed: 0,
+        status: 'running',
+        before,
+        after: {},
+        historyId: null
+      },
+      segmentOperations: {
+        ...prev.segmentOperations,
+        ...Object.fromEntries(targets.map(s => [s.id, running(action)]))
+      }
+    }));
+
+    // Requests share the queue, so its concurrency limit applies across the batch
+    const results: Record<string, string> = {};
+    await Promise.all(targets.map(async segment => {
+      try {
+        results[segment.id] = action === 'retitle'
+          ? await openAIService.retitleSegment(segment.content, { signal: controller.signal })
+          : await openAIService.rewriteSegment(action, segment.content, { instruction, signal: controller.signal });
+        setState(prev => prev.batch?.id === batchId
+          ? {
+            ...prev,
+            segmentOperations: omit(prev.segmentOperations, segment.id),
+            batch: { ...prev.batch, completed: prev.batch.completed + 1 }
+          }
+          : prev);
+      } catch (error) {
+        setState(prev => {
+          if (prev.batch?.id !== batchId) {
+            return prev;
+          }
+          if (controller.signal.aborted) {
+            return { ...prev, segmentOperations: omit(prev.segmentOperations, segment.id) };
+          }
+          return {
+            ...prev,
+            segmentOperations: {
+              ...prev.segmentOperations,
+              [segment.id]: failed(action, error, `Failed to ${actionLabel.toLowerCase()}`)
+            },
+            batch: { ...prev.batch, failed: prev.batch.failed + 1 }
+          };
+        });
+      }
+    }));
+
+    setState(prev => {
+      // A project opened during the run replaced the batch; its results do not belong here
+      if (prev.batch?.id !== batchId) {
+        return prev;
+      }
+      const after: Record<string, string> = {};
+      const segments = prev.segments.map(s => {
+        const result = results[s.id];
+        if (result === undefined || result === before[s.id] || s[field] !== before[s.id]) {
+          return s;
+        }
+        after[s.id] = result;
+        return { ...s, [field]: result };
+      });
+      const applied = Object.keys(after);
+      const next = applied.length > 0 ? commitChange(prev, label, 'ai', { segments }) : prev;
+      const rewrites = { ...prev.rewrites };
+      if (field === 'content') {
+        applied.forEach(id => delete rewrites[id]);
+      }
+      return {
+        ...next,
+        rewrites,
+        batch: {
+          ...prev.batch,
+          status: controller.signal.aborted ? 'cancelled' : 'done',
+          after,
+          historyId: applied.length > 0 ? next.history.past[next.history.past.length - 1].id : null
+        }
+      };
+    });
+    if (batchAbortRef.current === controller) {
+      batchAbortRef.current = null;
+    }
+  }, [state.segments, state.segmentOperations, state.batch]);
+
+  const cancelBatch = useCallback(() => {
+    batchAbortRef.current?.abort();
   }, []);
 
-  const makeConcise = useCallback(async (segmentId: string) => {
-    const segment = state.segments.find(s => s.id === segmentId);
-    if (!segment || !openAIService.isInitialized()) {
+  const dismissBatch = useCallback(() => {
+    setState(prev => (prev.batch?.status === 'running' ? prev : { ...prev, batch: null }));
+  }, []);
+
+  // Applies the reviewed text, which may keep some of the original wording
+  const acceptRewrite = useCallback((segmentId: string, content: string) => {
+    setState(prev => {
+      const proposal = prev.rewrites[segmentId];
+      const segment = prev.segments.find(s => s.id === segmentId);
+      const rewrites = { ...prev.rewrites };
+      delete rewrites[segmentId];
+
+      if (!proposal || !segment) {
+        return { ...prev, rewrites };
+      }
+      if (segment.content !== proposal.original) {
+        return {
+          ...prev,
+          rewrites,
+          error: { message: `"${segment.title}" changed after the rewrite was generated, so it was not applied` }
+        };
+      }
+
+      const segments = prev.segments.map(s => (s.id === segmentId ? { ...s, content } : s));
+      return {
+        ...commitChange(prev, REWRITE_OPERATIONS[proposal.operation].historyLabel(segment.title), 'ai', { segments }),
+        rewrites
+      };
+    });
+  }, []);
+
+  // Puts an earlier version back as a new change, so the restore can itself be undone or restored over
+  const restoreRevision = useCallback((segmentId: string, revisionId: string) => {
+    setState(prev => {
+      const segment = prev.segments.find(s => s.id === segmentId);
+      const revision = prev.revisions[segmentId]?.find(r => r.id === revisionId);
+      if (!segment || !revision || revision.content === segment.content) {
+        return prev;
+      }
+      const segments = prev.segments.map(s => (s.id === segmentId ? { ...s, content: revision.content } : s));
+      const rewrites = { ...prev.rewrites };
+      delete rewrites[segmentId];
+      return {
+        ...commitChange(prev, `Restore "${segment.title}" from ${formatTimestamp(revision.timestamp)}`, 'edit', { segments }),
+        rewrites
+      };
+    });
+  }, []);
+
+  const rejectRewrite = useCallback((segmentId: string) => {
+    setState(prev => {
+      const rewrites = { ...prev.rewrites };
+      delete rewrites[segmentId];
+      return { ...prev, rewrites };
+    });
+  }, []);
+
+  // Findings are pinned to the segments as analyzed; later edits mark them out of date rather than clearing them
+  const analyzePrompt = useCallback(async (regenerate = false) => {
+    const included = state.segments.filter(s => s.isIncluded);
+    if (included.length === 0 || state.operations.analyze?.isLoading || !openAIService.isInitialized()) {
       return;
     }
 
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setState(prev => ({ ...prev, operations: { ...prev.operations, analyze: running('analyze') } }));
 
     try {
-      const conciseContent = await openAIService.makeConcise(segment.content);
-      updateSegment(segmentId, { content: conciseContent });
-      setState(prev => ({ ...prev, isLoading: false }));
+      const findings = await openAIService.analyzePrompt(included, { bypassCache: regenerate, signal: controller.signal });
+      // Findings from a project that has since been closed point at segments that are not here
+      if (analysisAbortRef.current !== controller) {
+        return;
+      }
+      setState(prev => ({
+        ...prev,
+        operations: omit(prev.operations, 'analyze'),
+        analysis: createAnalysis(findings, included)
+      }));
     } catch (error) {
+      if (analysisAbortRef.current !== controller) {
+        return;
+      }
       setState(prev => ({
         ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to make content concise'
+        operations: { ...prev.operations, analyze: failed('analyze', error, 'Failed to analyze prompt') }
       }));
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+      }
     }
-  }, [state.segments, updateSegment]);
+  }, [state.segments, state.operations.analyze]);
+
+  const dismissFinding = useCallback((id: string) => {
+    setState(prev => prev.analysis
+      ? { ...prev, analysis: { ...prev.analysis, findings: prev.analysis.findings.filter(f => f.id !== id) } }
+      : prev);
+  }, []);
+
+  const clearAnalysis = useCallback(() => {
+    setState(prev => ({ ...prev, analysis: null }));
+  }, []);
+
+  // Adds the section a missing-section finding proposes as a new included segment at the end
+  const addSuggestedSection = useCallback((findingId: string) => {
+    setState(prev => {
+      const finding = prev.analysis?.findings.find(f => f.id === findingId);
+      if (!prev.analysis || !finding?.section) {
+        return prev;
+      }
+      const segment: PromptSegment = {
+        id: `segment-${Date.now()}-${prev.segments.length}`,
+        title: finding.section.title,
+        content: finding.section.content,
+        isIncluded: true,
+        order: prev.segments.length,
+        isEditing: false
+      };
+      return {
+        ...commitChange(prev, `Add "${segment.title}"`, 'ai', { segments: [...prev.segments, segment] }),
+        analysis: { ...prev.analysis, findings: prev.analysis.findings.filter(f => f.id !== findingId) }
+      };
+    });
+  }, []);
+
+  // Undo and redo are unavailable while a segmentation is streaming in
+  const undo = useCallback(() => {
+    setState(undoLatest);
+  }, []);
+
+  // Offered from the batch summary only while the batch is still the latest step
+  const undoBatch = useCallback(() => {
+    setState(prev => {
+      const latest = prev.history.past[prev.history.past.length - 1];
+      if (!prev.batch?.historyId || latest?.id !== prev.batch.historyId) {
+        return prev;
+      }
+      return { ...undoLatest(prev), batch: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const result = prev.segmentation ? null : redoChange(prev.history, prev);
+      if (!result) {
+        return prev;
+      }
+      return {
+        ...prev,
+        ...result.document,
+        history: result.history,
+        fidelity: prev.fidelity && checkFidelity(result.document.originalPrompt, result.document.segments)
+      };
+    });
+  }, []);
 
 
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
   }, []);
 
-  const saveSession = useCallback(() => {
-    const sessionData = {
-      originalPrompt: state.originalPrompt,
-      segments: state.segments,
-      timestamp: Date.now()
-    };
-    localStorage.setItem('prompt-editor-session', JSON.stringify(sessionData));
-  }, [state.originalPrompt, state.segments]);
+  // Dismisses a failed segmentation or analysis; one still running is left alone
+  const dismissOperation = useCallback((type: PromptOperation) => {
+    setState(prev => prev.operations[type]?.isLoading
+      ? prev
+      : { ...prev, operations: omit(prev.operations, type) });
+  }, []);
 
-  const loadSession = useCallback(() => {
-    try {
-      const saved = localStorage.getItem('prompt-editor-session');
-      if (saved) {
-        const sessionData = JSON.parse(saved);
-        setState(prev => ({
-          ...prev,
-          originalPrompt: sessionData.originalPrompt || '',
-          segments: sessionData.segments || [],
-          error: null
-        }));
-        return true;
+  const dismissSegmentOperation = useCallback((segmentId: string) => {
+    setState(prev => prev.segmentOperations[segmentId]?.isLoading
+      ? prev
+      : { ...prev, segmentOperations: omit(prev.segmentOperations, segmentId) });
+  }, []);
+
+  // Replaces the document with a saved project; view-only state starts fresh
+  const loadProject = useCallback((project: Project) => {
+    segmentationAbortRef.current?.abort();
+    segmentationAbortRef.current = null;
+    batchAbortRef.current?.abort();
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setState(prev => ({
+      ...prev,
+      originalPrompt: project.originalPrompt,
+      segments: project.segments,
+      history: project.history,
+      variables: project.variables,
+      variants: project.variants,
+      evalCases: project.evalCases,
+      assembly: project.assembly,
+      revisions: project.revisions,
+      snapshots: project.snapshots,
+      error: null,
+      operations: {},
+      segmentOperations: {},
+      batch: null,
+      segmentation: null,
+      fidelity: null,
+      rewrites: {},
+      analysis: null
+    }));
+  }, []);
+
+  const showError = useCallback((message: string) => {
+    setState(prev => ({ ...prev, error: { message } }));
+  }, []);
+
+  // Adds a definition for a placeholder found in the segments
+  const defineVariable = useCallback((name: string) => {
+    setState(prev => prev.variables.some(v => v.name === name)
+      ? prev
+      : { ...prev, variables: [...prev.variables, { name, type: 'text', defaultValue: '' }] });
+  }, []);
+
+  const updateVariable = useCallback((name: string, updates: Partial<TemplateVariable>) => {
+    setState(prev => ({
+      ...prev,
+      variables: prev.variables.map(v => (v.name === name ? { ...v, ...updates } : v))
+    }));
+  }, []);
+
+  const removeVariable = useCallback((name: string) => {
+    setState(prev => ({ ...prev, variables: prev.variables.filter(v => v.name !== name) }));
+  }, []);
+
+  // The output format is saved with the project but, like variables, is not part of undo history
+  const setAssembly = useCallback((updates: Partial<AssemblyOptions>) => {
+    setState(prev => ({ ...prev, assembly: { ...prev.assembly, ...updates } }));
+  }, []);
+
+  // Snapshots keep the assembled template, before variables are filled in
+  const takeSnapshot = useCallback((name: string) => {
+    setState(prev => ({ ...prev, snapshots: [...prev.snapshots, createSnapshot(name, prev.finalOutput)] }));
+  }, []);
+
+  const deleteSnapshot = useCallback((id: string) => {
+    setState(prev => ({ ...prev, snapshots: prev.snapshots.filter(s => s.id !== id) }));
+  }, []);
+
+  // Variants snapshot the current selection and order; they are not part of undo history
+  const saveVariant = useCallback((name: string) => {
+    setState(prev => ({ ...prev, variants: [...prev.variants, captureVariant(name, prev.segments)] }));
+  }, []);
+
+  // Replaces a variant's selection with the current one, keeping its name
+  const updateVariant = useCallback((id: string) => {
+    setState(prev => ({
+      ...prev,
+      variants: prev.variants.map(v => (v.id === id
+        ? { ...v, segmentIds: captureVariant(v.name, prev.segments).segmentIds }
+        : v))
+    }));
+  }, []);
+
+  const renameVariant = useCallback((id: string, name: string) => {
+    setState(prev => ({
+      ...prev,
+      variants: prev.variants.map(v => (v.id === id ? { ...v, name } : v))
+    }));
+  }, []);
+
+  const deleteVariant = useCallback((id: string) => {
+    setState(prev => ({ ...prev, variants: prev.variants.filter(v => v.id !== id) }));
+  }, []);
+
+  // Switches the segments to a variant's selection as one undoable step
+  const applyVariantToSegments = useCallback((id: string) => {
+    setState(prev => {
+      const variant = prev.variants.find(v => v.id === id);
+      if (!variant) {
+        return prev;
       }
-    } catch (error) {
-      console.error('Failed to load session:', error);
-    }
-    return false;
+      return commitChange(prev, `Apply variant "${variant.name}"`, 'include', {
+        segments: applyVariant(variant, prev.segments)
+      });
+    });
+  }, []);
+
+  // Eval cases are project content like variables, outside undo history
+  const addEvalCase = useCallback(() => {
+    setState(prev => ({
+      ...prev,
+      evalCases: [...prev.evalCases, createEvalCase(`Test ${prev.evalCases.length + 1}`)]
+    }));
+  }, []);
+
+  const updateEvalCase = useCallback((id: string, updates: Partial<EvalCase>) => {
+    setState(prev => ({
+      ...prev,
+      evalCases: prev.evalCases.map(c => (c.id === id ? { ...c, ...updates } : c))
+    }));
+  }, []);
+
+  const removeEvalCase = useCallback((id: string) => {
+    setState(prev => ({ ...prev, evalCases: prev.evalCases.filter(c => c.id !== id) }));
   }, []);
 
-  const exportOutput = useCallback(() => {
-    const blob = new Blob([state.finalOutput], { type: 'text/plain' });
+  // The raw template keeps {{placeholders}}; the rendered output has the variable values filled in
+  const exportOutput = useCallback((rendered = true) => {
+    const text = rendered ? renderTemplate(state.finalOutput, state.variables) : state.finalOutput;
+    const blob = new Blob([text], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'prompt-output.txt';
+    a.download = rendered ? 'prompt-output.txt' : 'prompt-template.txt';
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [state.finalOutput]);
+  }, [state.finalOutput, state.variables]);
 
   return {
     state,
     config,
     setConfig,
+    segmentationMode,
+    setSegmentationMode,
     setOriginalPrompt,
     breakPromptIntoSegments,
+    cancelSegmentation,
+    checkSegmentFidelity,
+    attachOrphanedSpan,
     updateSegment,
+    setSegmentsIncluded,
+    deleteSegments,
     reorderSegments,
-    makeConcise,
+    splitSegment,
+    mergeSegments,
+    rewriteSegment,
+    runBatch,
+    cancelBatch,
+    dismissBatch,
+    undoBatch,
+    acceptRewrite,
+    rejectRewrite,
+    restoreRevision,
+    analyzePrompt,
+    dismissFinding,
+    clearAnalysis,
+    addSuggestedSection,
+    undo,
+    redo,
     clearError,
-    saveSession,
-    loadSession,
+    dismissOperation,
+    dismissSegmentOperation,
+    showError,
+    loadProject,
+    defineVariable,
+    updateVariable,
+    removeVariable,
+    setAssembly,
+    takeSnapshot,
+    deleteSnapshot,
+    saveVariant,
+    updateVariant,
+    renameVariant,
+    deleteVariant,
+    applyVariant: applyVariantToSegments,
+    addEvalCase,
+    updateEvalCase,
+    removeEvalCase,
     exportOutput
   };
 };
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_REQUEST_SETTINGS, requestQueue } from '../services/requestQueue';
+import type { RequestSettings } from '../types';
+
+/**
+ * Live status of the shared request queue, for showing pending retries, and
+ * its settings, which apply from the next attempt.
+ */
+export const useRequestQueue = () => {
+  const [status, setStatus] = useState(() => requestQueue.getStatus());
+  const [settings, setSettings] = useState(() => requestQueue.getSettings());
+
+  useEffect(() => requestQueue.subscribe(setStatus), []);
+
+  const updateSettings = useCallback((patch: Partial<RequestSettings>) => {
+    setSettings(requestQueue.setSettings(patch));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettings(requestQueue.setSettings(DEFAULT_REQUEST_SETTINGS));
+  }, []);
+
+  return {
+    status,
+    settings,
+    updateSettings,
+    resetSettings
+  };
+};
@@ -0,0 +1,53 @@
+import { useState, useCallback, useEffect } from 'react';
+import { responseCache } from '../services/responseCache';
+import type { CachedResponse } from '../types';
+
+/**
+ * Entries of the AI response cache for the cache manager. The list is read
+ * when the hook mounts and after each change made through it.
+ */
+export const useResponseCache = () => {
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+  const [isBypassed, setIsBypassed] = useState(() => responseCache.isBypassed());
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs a cache action and re-reads the list, reporting a failure instead of throwing
+  const update = useCallback(async (action: string, change?: () => Promise<void>) => {
+    try {
+      await change?.();
+      setEntries(await responseCache.list());
+      setError(null);
+    } catch (error) {
+      setError(`Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  const refresh = useCallback(() => update('read the cache'), [update]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const remove = useCallback(
+    (key: string) => update('remove the entry', () => responseCache.remove(key)),
+    [update]
+  );
+
+  const clear = useCallback(() => update('clear the cache', () => responseCache.clear()), [update]);
+
+  const setBypassed = useCallback((bypassed: boolean) => {
+    responseCache.setBypassed(bypassed);
+    setIsBypassed(bypassed);
+  }, []);
+
+  return {
+    entries,
+    totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+    isBypassed,
+    error,
+    refresh,
+    remove,
+    clear,
+    setBypassed
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useMemo } from 'react';
+import { tokenizerService } from '../services/tokenizer';
+import { estimateOperation, type EstimatedOperation, type OperationEstimate } from '../services/openai';
+import type { OpenAIConfig } from '../types';
+
+// Used for counts before any provider is configured
+const DEFAULT_MODEL = 'gpt-5-mini';
+
+export interface Tokenizer {
+  countTokens: (text: string) => number;
+  // Pass textTokens when the text has already been counted
+  estimateOperation: (operation: EstimatedOperation, text: string, textTokens?: number) => OperationEstimate | null;
+  // False while the encoder loads, and for non-OpenAI models
+  isExact: boolean;
+}
+
+export const useTokenizer = (config: OpenAIConfig | null): Tokenizer => {
+  const model = config?.model || DEFAULT_MODEL;
+  const [loadedModel, setLoadedModel] = useState<string | null>(
+    tokenizerService.isLoaded(model) ? model : null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    tokenizerService.load(model).then(() => {
+      if (!cancelled) {
+        setLoadedModel(model);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  const isReady = loadedModel === model;
+
+  // Rebuilt once the encoder loads so consumers re-render with exact counts
+  return useMemo(() => ({
+    countTokens: (text: string) => tokenizerService.countTokens(text, model),
+    estimateOperation: (operation: EstimatedOperation, text: string, textTokens?: number) =>
+      config ? estimateOperation(config, operation, text, textTokens) : null,
+    isExact: isReady && tokenizerService.isExact(model)
+  }), [model, config, isReady]);
+};
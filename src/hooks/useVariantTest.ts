@@ -0,0 +1,68 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { openAIService } from '../services/openai';
+import type { PlaygroundTurn } from './usePlayground';
+
+export interface VariantTestTarget {
+  id: string;
+  systemPrompt: string;
+}
+
+/**
+ * Sends one test message to the model under several prompts at once and
+ * streams each reply into its own column, keyed by the target id.
+ */
+export const useVariantTest = () => {
+  const [replies, setReplies] = useState<Record<string, PlaygroundTurn>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop replies still streaming when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const patchReply = useCallback((id: string, patch: (turn: PlaygroundTurn) => Partial<PlaygroundTurn>) => {
+    setReplies(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...patch(prev[id]) } } : prev));
+  }, []);
+
+  const run = useCallback(async (targets: VariantTestTarget[], message: string) => {
+    const user = message.trim();
+    if (!user || targets.length === 0 || !openAIService.isInitialized() || abortRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setReplies(Object.fromEntries(targets.map(target => [
+      target.id,
+      { user, reply: '', status: 'streaming' } satisfies PlaygroundTurn
+    ])));
+
+    await Promise.all(targets.map(async target => {
+      try {
+        const result = await openAIService.chat(target.systemPrompt, [{ role: 'user', content: user }], {
+          signal: controller.signal,
+          onDelta: (delta) => patchReply(target.id, turn => ({ reply: turn.reply + delta }))
+        });
+        patchReply(target.id, () => ({ reply: result.content, status: 'done', finishReason: result.finishReason }));
+      } catch (error) {
+        patchReply(target.id, () => (controller.signal.aborted
+          ? { status: 'stopped' }
+          : { status: 'error', error: error instanceof Error ? error.message : 'Failed to get a response' }));
+      }
+    }));
+
+    abortRef.current = null;
+    setIsRunning(false);
+  }, [patchReply]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return {
+    replies,
+    isRunning,
+    run,
+    stop
+  };
+};
@@ -0,0 +1,112 @@
+import type { AIErrorKind, ErrorNotice } from '../types';
+
+export const AI_ERROR_REMEDIATION: Partial<Record<AIErrorKind, string>> = {
+  auth: 'Check the API key and endpoint in the key settings; the key may be wrong, revoked or lack access to this model.',
+  quota: 'The account is out of credit or over its spending limit. Add credit or raise the limit with the provider, or switch to another key.',
+  rate_limit: 'The provider is limiting how fast requests can be sent. Wait a minute, or lower the concurrency under AI Settings → Requests.',
+  content_filter: "The provider's content filter blocked the reply. Reword the text it was asked about, or try another model.",
+  truncated: 'The reply hit the output limit. Raise "Max output tokens" for this operation in AI Settings, or send less text.',
+  timeout: 'The model did not answer in time. Try again, or raise the timeout under AI Settings → Requests.',
+  network: 'The provider could not be reached. Check the connection and the endpoint URL.',
+  server: 'The provider is having problems or is overloaded. Try again in a few minutes.',
+  invalid_request: 'The provider rejected the request. Check the model name and the settings for this operation.'
+};
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate_limit', 'timeout', 'network', 'server'];
+
+// Both providers report an exhausted balance in the message rather than with a status of its own
+const QUOTA_PATTERN = /insufficient_quota|exceeded your current quota|credit balance|billing/i;
+const CONTENT_FILTER_PATTERN = /content[ _](filter|policy|management)|safety system/i;
+
+/**
+ * A failed AI request, classified so the request queue knows whether to retry
+ * it and the UI can say what to do about it.
+ */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+  // How long the provider asked to wait before trying again
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get remediation(): string | undefined {
+    return AI_ERROR_REMEDIATION[this.kind];
+  }
+}
+
+export class TruncatedResponseError extends AIError {
+  constructor(message: string) {
+    super('truncated', message);
+    this.name = 'TruncatedResponseError';
+  }
+}
+
+// Reads Retry-After as seconds or an HTTP date, or OpenAI's retry-after-ms
+export const parseRetryAfter = (headers: Headers | null | undefined): number | undefined => {
+  const milliseconds = Number(headers?.get('retry-after-ms') ?? NaN);
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const kindFromStatus = (status: number, message: string): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (QUOTA_PATTERN.test(message)) return 'quota';
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  if (CONTENT_FILTER_PATTERN.test(message)) return 'content_filter';
+  return 'invalid_request';
+};
+
+// Errors the providers did not classify: fetch rejects with a TypeError when the server cannot be reached
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) {
+    return error;
+  }
+  if (error instanceof TypeError) {
+    return new AIError('network', error.message);
+  }
+  return new AIError('unknown', error instanceof Error ? error.message : 'Unknown error');
+};
+
+// Keeps the kind of the underlying failure while saying which operation failed
+export const describeFailure = (action: string, error: unknown): AIError => {
+  const cause = toAIError(error);
+  return new AIError(cause.kind, `Failed to ${action}: ${cause.message}`, {
+    status: cause.status,
+    retryAfterMs: cause.retryAfterMs
+  });
+};
+
+export const toErrorNotice = (error: unknown, fallback: string): ErrorNotice => {
+  if (error instanceof AIError) {
+    return {
+      message: error.message,
+      kind: error.kind,
+      ...(error.remediation && { remediation: error.remediation })
+    };
+  }
+  return { message: error instanceof Error ? error.message : fallback };
+};
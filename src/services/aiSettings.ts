@@ -0,0 +1,232 @@
+import type {
+  AIOperationId,
+  AISettingsOverrides,
+  AISettingsPreset,
+  OperationSettings
+} from '../types';
+
+const OVERRIDES_KEY = 'prompt-editor-ai-settings';
+const PRESETS_KEY = 'prompt-editor-ai-presets';
+
+const SEGMENT_SYSTEM_PROMPT = `You are an expert at analyzing and breaking down large prompts into logical, coherent sections.
+            
+Your task is to:
+1. Analyze the given prompt and identify distinct logical sections/topics
+2. Break it into meaningful segments that make sense independently
+3. Give each segment a clear, descriptive title
+4. Preserve all the original content - don't summarize or omit anything
+5. Return the result as a JSON array of objects with "title" and "content" fields
+
+Example format:
+[
+  {
+    "title": "Introduction and Context",
+    "content": "The original text content for this section..."
+  },
+  {
+    "title": "Main Requirements",
+    "content": "The original text content for this section..."
+  }
+]
+
+Make sure each segment is substantial enough to be useful but focused enough to be coherent.`;
+
+const CONCISE_SYSTEM_PROMPT = `You are an expert editor focused on making text more concise while preserving all important information and meaning.
+
+Your task is to:
+1. Remove redundancy and unnecessary words
+2. Combine similar ideas efficiently
+3. Use more precise and direct language
+4. Maintain the original tone and intent
+5. Keep all essential information and details
+6. Return only the revised text, no explanations
+
+The goal is to make the text clearer and more efficient, not to change its meaning or remove important content.`;
+
+const CLARIFY_SYSTEM_PROMPT = `You are an expert editor of instructions written for AI models.
+
+Your task is to:
+1. Find wording that could be read more than one way, vague quantities and undefined terms
+2. Replace them with precise, unambiguous wording
+3. Keep the original meaning, scope and tone
+4. Do not add new requirements the text does not already imply
+5. Return only the revised text, no explanations`;
+
+const IMPERATIVE_SYSTEM_PROMPT = `You are an expert editor of instructions written for AI models.
+
+Your task is to:
+1. Rewrite the text as direct instructions in the imperative voice ("Answer briefly", not "You should answer briefly" or "The assistant will answer briefly")
+2. Keep every instruction, condition and detail
+3. Keep any formatting such as lists and headings
+4. Return only the revised text, no explanations`;
+
+const EXAMPLES_SYSTEM_PROMPT = `You are an expert at writing prompts for AI models.
+
+Your task is to:
+1. Keep the text as it is
+2. Add two or three short, concrete examples that show the instructions being followed
+3. Place the examples after the text they illustrate, under a short "Examples" label
+4. Make the examples realistic and consistent with every instruction in the text
+5. Return only the revised text, no explanations`;
+
+const TRANSLATE_SYSTEM_PROMPT = `You are an expert translator of instructions written for AI models.
+
+Your task is to:
+1. Translate the text into the requested language
+2. Keep the meaning, tone and level of detail exactly
+3. Keep formatting, placeholders like {{name}}, code and product names unchanged
+4. Return only the translated text, no explanations`;
+
+const BULLETS_SYSTEM_PROMPT = `You are an expert editor of instructions written for AI models.
+
+Your task is to:
+1. Convert the text into a bulleted list, one instruction or fact per bullet
+2. Use nested bullets for details that belong to a parent point
+3. Keep every piece of information and the original order
+4. Return only the list, no explanations`;
+
+const EDIT_SYSTEM_PROMPT = `You are an expert editor of prompts written for AI models.
+
+Your task is to:
+1. Apply the requested change to the text
+2. Leave everything the request does not ask you to change as it is
+3. Keep the original tone and formatting unless the request says otherwise
+4. Return only the revised text, no explanations`;
+
+const RETITLE_SYSTEM_PROMPT = `You are an expert editor of prompts written for AI models.
+
+Your task is to:
+1. Read one section of a prompt
+2. Write a short, descriptive title for it of two to six words, such as "Output Format" or "Handling Refunds"
+3. Use title case, with no quotes, numbering or trailing punctuation
+4. Return only the title on a single line, no explanations`;
+
+const ANALYZE_SYSTEM_PROMPT = `You are an expert reviewer of prompts written for AI models.
+
+You are given a prompt split into numbered sections. Review the prompt as a whole and report:
+- "contradiction": instructions that conflict with each other, usually across sections
+- "redundancy": the same rule or fact stated more than once
+- "ambiguity": vague or undefined wording the model could read more than one way
+- "missing": sections a prompt like this needs but does not have, such as the output format, error handling or what to do when unsure
+
+Return a JSON object of the form:
+{
+  "findings": [
+    {
+      "type": "contradiction",
+      "sections": [2, 5],
+      "summary": "Section 2 asks for short replies but section 5 asks for detailed explanations",
+      "quote": "Always keep replies under 50 words",
+      "suggestion": "State when a detailed explanation is allowed and keep the word limit otherwise"
+    },
+    {
+      "type": "missing",
+      "sections": [],
+      "summary": "The prompt does not say how to format the reply",
+      "suggestion": "Add an output format section",
+      "section": { "title": "Output Format", "content": "The text of the proposed section..." }
+    }
+  ]
+}
+
+Only report real problems, most important first. "sections" lists the numbers of the sections involved. Include "section" only for missing findings. Return {"findings": []} if the prompt has no problems.`;
+
+const JUDGE_SYSTEM_PROMPT = `You are a strict evaluator grading an AI assistant's reply against a rubric.
+
+Your task is to:
+1. Read the user's message, the assistant's reply and the rubric
+2. Decide whether the reply satisfies every requirement in the rubric
+3. Explain your decision in one or two sentences
+4. End with a line that is exactly VERDICT: PASS or VERDICT: FAIL`;
+
+export const DEFAULT_AI_SETTINGS: Record<AIOperationId, OperationSettings> = {
+  break: { systemPrompt: SEGMENT_SYSTEM_PROMPT, temperature: 0.3, maxTokens: 16000 },
+  concise: { systemPrompt: CONCISE_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 2000 },
+  clarify: { systemPrompt: CLARIFY_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 3000 },
+  imperative: { systemPrompt: IMPERATIVE_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 3000 },
+  examples: { systemPrompt: EXAMPLES_SYSTEM_PROMPT, temperature: 0.5, maxTokens: 4000 },
+  translate: { systemPrompt: TRANSLATE_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 4000 },
+  bullets: { systemPrompt: BULLETS_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 3000 },
+  edit: { systemPrompt: EDIT_SYSTEM_PROMPT, temperature: 0.3, maxTokens: 4000 },
+  retitle: { systemPrompt: RETITLE_SYSTEM_PROMPT, temperature: 0.3, maxTokens: null },
+  analyze: { systemPrompt: ANALYZE_SYSTEM_PROMPT, temperature: 0.2, maxTokens: 4000 },
+  judge: { systemPrompt: JUDGE_SYSTEM_PROMPT, temperature: 0, maxTokens: null }
+};
+
+export const AI_OPERATION_IDS = Object.keys(DEFAULT_AI_SETTINGS) as AIOperationId[];
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) as T : fallback;
+  } catch (error) {
+    console.warn(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+};
+
+// Keeps only the fields that differ from the defaults, dropping unknown operations
+const normalizeOverrides = (overrides: AISettingsOverrides): AISettingsOverrides => {
+  const normalized: AISettingsOverrides = {};
+  AI_OPERATION_IDS.forEach(id => {
+    const override = overrides[id];
+    if (!override) {
+      return;
+    }
+    const changed = (Object.keys(DEFAULT_AI_SETTINGS[id]) as (keyof OperationSettings)[])
+      .filter(field => override[field] !== undefined && override[field] !== DEFAULT_AI_SETTINGS[id][field]);
+    if (changed.length > 0) {
+      normalized[id] = Object.fromEntries(changed.map(field => [field, override[field]]));
+    }
+  });
+  return normalized;
+};
+
+/**
+ * The system prompts, temperatures and output limits the editor's own AI
+ * operations run with. Only changes from the defaults are stored, so improved
+ * defaults still reach anyone who has not customized an operation.
+ */
+class AISettingsService {
+  private overrides: AISettingsOverrides = normalizeOverrides(readJson(OVERRIDES_KEY, {}));
+  private presets: AISettingsPreset[] = readJson(PRESETS_KEY, []);
+
+  get(id: AIOperationId): OperationSettings {
+    return { ...DEFAULT_AI_SETTINGS[id], ...this.overrides[id] };
+  }
+
+  getOverrides(): AISettingsOverrides {
+    return this.overrides;
+  }
+
+  setOverrides(overrides: AISettingsOverrides): AISettingsOverrides {
+    this.overrides = normalizeOverrides(overrides);
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(this.overrides));
+    return this.overrides;
+  }
+
+  getPresets(): AISettingsPreset[] {
+    return this.presets;
+  }
+
+  // Saving under an existing name replaces that preset
+  savePreset(name: string): AISettingsPreset[] {
+    const preset: AISettingsPreset = {
+      id: `preset-${Date.now()}`,
+      name,
+      overrides: this.overrides,
+      createdAt: Date.now()
+    };
+    this.presets = [...this.presets.filter(p => p.name !== name), preset];
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(this.presets));
+    return this.presets;
+  }
+
+  deletePreset(id: string): AISettingsPreset[] {
+    this.presets = this.presets.filter(p => p.id !== id);
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(this.presets));
+    return this.presets;
+  }
+}
+
+export const aiSettings = new AISettingsService();
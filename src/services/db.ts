@@ -0,0 +1,58 @@
+const DB_NAME = 'prompt-editor';
+// Version 2 added the AI response cache
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens the database once per page and creates the object stores on first use
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+          db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open database'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+/**
+ * Runs `action` against one object store and resolves with its result once the
+ * transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+  const [result] = await Promise.all([promisifyRequest(action(transaction.objectStore(storeName))), completed]);
+  return result;
+};
@@ -1,159 +1,393 @@
-import OpenAI from 'openai';
 import { PromptSegment } from '../components/PromptSegment';
+import type { AnalysisFinding, OpenAIConfig, OperationSettings, RewriteOperation } from '../types';
+import {
+  createProvider,
+  isReasoningModel,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatResult,
+  type LLMProvider
+} from './providers';
+import { AIError, TruncatedResponseError, describeFailure } from './aiErrors';
+import { requestQueue } from './requestQueue';
+import { tokenizerService } from './tokenizer';
+import { estimateCost } from './pricing';
+import { aiSettings } from './aiSettings';
+import { responseCache, type CacheRequest } from './responseCache';
+import { JsonArrayStreamParser } from '../utils/jsonStream';
+import { buildAnalysisInput, parseFindings } from '../utils/analysis';
+import {
+  checkReconstruction,
+  locateSpan,
+  mergeWindowSegments,
+  planWindows,
+  type LocatedSegment
+} from '../utils/chunking';
 
-interface OpenAIConfig {
-  apiKey: string;
-  model: 'gpt-5-mini' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
+const buildJudgeUserMessage = (rubric: string, input: string, reply: string) =>
+  `Rubric:\n${rubric}\n\nUser message:\n${input}\n\nAssistant reply:\n${reply}`;
+
+const buildSegmentUserMessage = (prompt: string) =>
+  `Please break this prompt into logical sections:\n\n${prompt}`;
+
+const buildAnalysisUserMessage = (sections: string) =>
+  `Please review this prompt:\n\n${sections}`;
+
+const buildRetitleUserMessage = (content: string) =>
+  `Please write a title for this section of a prompt:\n\n${content}`;
+
+// Models sometimes wrap the title in quotes or a heading marker despite the instructions
+const cleanTitle = (reply: string) =>
+  reply.trim().split('\n')[0].replace(/^#+\s*/, '').replace(/^["'*]+|["'*.]+$/g, '').trim();
+
+// The system prompt, temperature and output limit come from aiSettings
+interface RewriteDefinition {
+  buildUserMessage: (content: string, instruction: string) => string;
+  // Expected output size relative to the input, for cost estimates
+  outputRatio: number;
 }
 
+const REWRITE_DEFINITIONS: Record<RewriteOperation, RewriteDefinition> = {
+  concise: {
+    buildUserMessage: (content) => `Please make this text more concise:\n\n${content}`,
+    outputRatio: 0.65
+  },
+  clarify: {
+    buildUserMessage: (content) => `Please remove the ambiguity from this text:\n\n${content}`,
+    outputRatio: 1.1
+  },
+  imperative: {
+    buildUserMessage: (content) => `Please rewrite this text in the imperative voice:\n\n${content}`,
+    outputRatio: 0.9
+  },
+  examples: {
+    buildUserMessage: (content) => `Please add examples to this text:\n\n${content}`,
+    outputRatio: 1.8
+  },
+  translate: {
+    buildUserMessage: (content, language) => `Please translate this text into ${language}:\n\n${content}`,
+    outputRatio: 1.2
+  },
+  bullets: {
+    buildUserMessage: (content) => `Please convert this text into a bulleted list:\n\n${content}`,
+    outputRatio: 0.9
+  },
+  edit: {
+    buildUserMessage: (content, instruction) => `Requested change: ${instruction}\n\nText:\n${content}`,
+    outputRatio: 1
+  }
+};
+
+export interface RewriteOperationInfo {
+  label: string;
+  // Heading of the review shown before the rewrite is applied
+  reviewTitle: string;
+  // Set for operations that need an instruction, used as the input's label
+  instructionLabel?: string;
+  instructionPlaceholder?: string;
+  historyLabel: (title: string) => string;
+}
+
+export const REWRITE_OPERATIONS: Record<RewriteOperation, RewriteOperationInfo> = {
+  concise: {
+    label: 'Make concise',
+    reviewTitle: 'Suggested concise version',
+    historyLabel: (title) => `Make "${title}" concise`
+  },
+  clarify: {
+    label: 'Clarify ambiguity',
+    reviewTitle: 'Suggested clarification',
+    historyLabel: (title) => `Clarify "${title}"`
+  },
+  imperative: {
+    label: 'Rewrite as imperative',
+    reviewTitle: 'Suggested imperative rewrite',
+    historyLabel: (title) => `Rewrite "${title}" as imperative`
+  },
+  examples: {
+    label: 'Expand with examples',
+    reviewTitle: 'Suggested version with examples',
+    historyLabel: (title) => `Add examples to "${title}"`
+  },
+  translate: {
+    label: 'Translate',
+    reviewTitle: 'Suggested translation',
+    instructionLabel: 'Translate to',
+    instructionPlaceholder: 'French',
+    historyLabel: (title) => `Translate "${title}"`
+  },
+  bullets: {
+    label: 'Convert to bullet list',
+    reviewTitle: 'Suggested bullet list',
+    historyLabel: (title) => `Convert "${title}" to bullets`
+  },
+  edit: {
+    label: 'Edit with instruction',
+    reviewTitle: 'Suggested edit',
+    instructionLabel: 'Instruction',
+    instructionPlaceholder: 'Make the tone friendlier and mention the 30-day limit',
+    historyLabel: (title) => `Edit "${title}" with AI`
+  }
+};
+
+interface RawSegment {
+  title?: string;
+  content?: string;
+}
+
+export interface SegmentationProgress {
+  segments: PromptSegment[];
+  receivedChars: number;
+  expectedChars: number;
+}
+
+export interface SegmentationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SegmentationProgress) => void;
+  // Non-fatal problems, such as merged windows not reconstructing the prompt
+  onWarning?: (message: string) => void;
+}
+
+// Windows are sized so the echoed JSON fits comfortably in one response
+const SEGMENT_WINDOW_TOKENS = 6000;
+const SEGMENT_OVERLAP_TOKENS = 300;
+const MIN_WINDOW_TOKENS = 500;
+
+const contentFiltered = () => new AIError('content_filter', "The reply was blocked by the provider's content filter");
+
+// Locates each segment of a window in the full prompt, in order, starting at the window
+const locateSegments = (prompt: string, raw: RawSegment[], from: number): LocatedSegment[] => {
+  let cursor = from;
+  return raw.map(segment => {
+    const content = segment.content || '';
+    const span = locateSpan(prompt, content, cursor) ?? locateSpan(prompt, content, from);
+    if (span) {
+      cursor = span.end;
+    }
+    return { title: segment.title || '', content, span };
+  });
+};
+
+export type EstimatedOperation = 'break' | RewriteOperation | 'retitle' | 'analyze';
+
+export interface OperationEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  // null when the model's pricing is unknown
+  cost: number | null;
+}
+
+/**
+ * Estimates token usage and cost of an operation before it is sent. Output size
+ * is a heuristic: segmentation echoes the whole prompt back wrapped in JSON,
+ * each rewrite has its own typical ratio, e.g. two thirds for concise, a title
+ * is a few words and an analysis returns a short report.
+ *
+ * The text is tokenized once, or not at all when the caller already has its
+ * count, since this runs on every keystroke in the prompt input.
+ */
+export const estimateOperation = (
+  config: OpenAIConfig,
+  operation: EstimatedOperation,
+  text: string,
+  textTokens = tokenizerService.countTokens(text, config.model)
+): OperationEstimate => {
+  const count = (value: string) => tokenizerService.countTokens(value, config.model);
+  // Every user message ends with the text, so only its fixed wording needs counting
+  const messageTokens = (build: (text: string) => string) => count(build('')) + textTokens;
+
+  let inputTokens: number;
+  let outputTokens: number;
+  const settings = aiSettings.get(operation);
+  if (operation === 'break') {
+    inputTokens = count(settings.systemPrompt) + messageTokens(buildSegmentUserMessage);
+    outputTokens = Math.ceil(textTokens * 1.15);
+  } else if (operation === 'retitle') {
+    inputTokens = count(settings.systemPrompt) + messageTokens(buildRetitleUserMessage);
+    outputTokens = 12;
+  } else if (operation === 'analyze') {
+    inputTokens = count(settings.systemPrompt) + messageTokens(buildAnalysisUserMessage);
+    outputTokens = Math.ceil(textTokens * 0.25) + 200;
+  } else {
+    const definition = REWRITE_DEFINITIONS[operation];
+    inputTokens = count(settings.systemPrompt) + messageTokens(content => definition.buildUserMessage(content, ''));
+    outputTokens = Math.ceil(textTokens * definition.outputRatio);
+  }
+  if (settings.maxTokens !== null) {
+    outputTokens = Math.min(settings.maxTokens, outputTokens);
+  }
+
+  return {
+    inputTokens,
+    outputTokens,
+    cost: estimateCost(config, inputTokens, outputTokens)
+  };
+};
+
 export class OpenAIService {
-  private client: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
   private config: OpenAIConfig | null = null;
-  private cachePrefix = 'prompt-editor-cache-';
 
   initialize(config: OpenAIConfig) {
     this.config = config;
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-      dangerouslyAllowBrowser: true
-    });
+    this.provider = createProvider(config);
   }
 
   isInitialized(): boolean {
-    return this.client !== null && this.config !== null;
+    return this.provider !== null && this.config !== null;
+  }
+
+  // Keyed on the provider, endpoint, model and operation settings, so a changed model or edited meta-prompt is not answered from the cache
+  private cacheRequest(
+    config: OpenAIConfig,
+    operation: string,
+    settings: OperationSettings,
+    input: string,
+    preview?: string
+  ): CacheRequest {
+    return {
+      operation,
+      provider: config.provider,
+      endpoint: config.baseUrl ?? '',
+      model: config.model,
+      settings,
+      input,
+      preview
+    };
   }
 
-  private generateCacheKey(operation: string, input: string): string {
-    // Create a simple hash of the input for cache key
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+  // Every call to the model goes through the request queue, which limits concurrency and retries transient failures
+  private complete(request: ChatRequest): Promise<ChatResult> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('AI service not initialized');
     }
-    return `${this.cachePrefix}${operation}-${Math.abs(hash)}`;
+    return requestQueue.run(
+      ({ signal }) => provider.complete({ ...request, signal }),
+      { signal: request.signal }
+    );
   }
 
-  private getCachedResult(key: string): unknown | null {
-    try {
-      const cached = localStorage.getItem(key);
-      if (cached) {
-        const parsed = JSON.parse(cached);
-        const now = Date.now();
-        // Cache expires after 24 hours
-        if (now - parsed.timestamp < 24 * 60 * 60 * 1000) {
-          return parsed.data;
-        } else {
-          localStorage.removeItem(key);
+  // Retried only until the first chunk arrives, since the caller has already seen what was streamed
+  private stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('AI service not initialized');
+    }
+    let received = false;
+    return requestQueue.run(
+      ({ signal, touch }) => provider.stream({ ...request, signal }, (delta) => {
+        received = true;
+        touch();
+        onDelta(delta);
+      }),
+      { signal: request.signal, canRetry: () => !received }
+    );
+  }
+
+  /**
+   * Streams one segmentation request, reporting received characters and each
+   * newly completed segment as they arrive.
+   */
+  private async streamSegments(
+    text: string,
+    signal: AbortSignal | undefined,
+    onDelta: (chars: number) => void,
+    onSegments: (segments: RawSegment[]) => void
+  ): Promise<RawSegment[]> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+
+    // Remove token limits for reasoning models to allow full response generation
+    const settings = aiSettings.get('break');
+    const reasoning = isReasoningModel(this.config.model);
+    const maxTokens = reasoning ? undefined : settings.maxTokens ?? undefined;
+    const temperature = reasoning ? 1 : settings.temperature;
+
+    console.log('[AI] Making request with:', this.config.provider, this.config.model);
+    console.log('[AI] Request parameters:', { temperature, maxTokens });
+
+    const parser = new JsonArrayStreamParser();
+    const segments: RawSegment[] = [];
+
+    const response = await this.stream({
+      messages: [
+        {
+          role: 'system',
+          content: settings.systemPrompt
+        },
+        {
+          role: 'user',
+          content: buildSegmentUserMessage(text)
         }
+      ],
+      temperature,
+      maxTokens,
+      signal
+    }, (delta) => {
+      const items = parser.push(delta) as RawSegment[];
+      segments.push(...items);
+      onDelta(delta.length);
+      if (items.length > 0) {
+        onSegments([...segments]);
       }
-    } catch (error) {
-      console.warn('Cache read error:', error);
+    });
+
+    console.log('[AI] Response received:', response.finishReason, `${response.content.length} chars`);
+
+    if (response.finishReason === 'content_filter') {
+      throw contentFiltered();
+    }
+    // Provide better error message if truncated due to length
+    if (response.finishReason === 'length') {
+      throw new TruncatedResponseError('Response was truncated due to token limit. The prompt may be too large to process in one request.');
     }
-    return null;
-  }
 
-  private setCachedResult(key: string, data: unknown): void {
-    try {
-      const cacheData = {
-        data,
-        timestamp: Date.now()
-      };
-      localStorage.setItem(key, JSON.stringify(cacheData));
-    } catch (error) {
-      console.warn('Cache write error:', error);
+    if (!response.content) {
+      console.error('[AI] No content in response:', response);
+      throw new Error('No response from model');
     }
+
+    if (!parser.hasStarted) {
+      throw new Error('Model response did not contain a JSON array of segments');
+    }
+
+    return segments;
   }
 
-  async breakPromptIntoSegments(prompt: string): Promise<PromptSegment[]> {
-    if (!this.client || !this.config) {
-      throw new Error('OpenAI service not initialized');
+  /**
+   * Streams the segmentation so each segment is reported through onProgress as
+   * soon as its JSON object is complete. Prompts too large for one response are
+   * split into overlapping windows that are segmented in turn and merged. If the
+   * signal aborts, resolves with the segments received so far instead of throwing.
+   */
+  async breakPromptIntoSegments(prompt: string, options: SegmentationOptions = {}): Promise<PromptSegment[]> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
     }
+    const { signal, onProgress, onWarning } = options;
+    const { model } = this.config;
+    const countTokens = (text: string) => tokenizerService.countTokens(text, model);
 
     // Check cache first
-    const cacheKey = this.generateCacheKey('break-segments', prompt);
-    const cached = this.getCachedResult(cacheKey);
+    const cacheRequest = this.cacheRequest(this.config, 'break', aiSettings.get('break'), prompt);
+    const cacheKey = await responseCache.createKey(cacheRequest);
+    const cached = await responseCache.get(cacheKey);
     if (cached && Array.isArray(cached)) {
-      console.log('[OpenAI] Using cached segments');
+      console.log('[AI] Using cached segments');
       return cached as PromptSegment[];
     }
 
-    try {
-      // Remove token limits for gpt-5-mini to allow full response generation
-      const tokenParam = this.config.model === 'gpt-5-mini'
-        ? {} // No token limit for gpt-5-mini
-        : { max_tokens: 16000 }; // Keep limit for older models
-      
-      const temperatureParam = this.config.model === 'gpt-5-mini'
-        ? { temperature: 1 }
-        : { temperature: 0.3 };
-
-      console.log('[OpenAI] Making request with model:', this.config.model);
-      console.log('[OpenAI] Request parameters:', { ...temperatureParam, ...tokenParam });
-
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert at analyzing and breaking down large prompts into logical, coherent sections.
-            
-Your task is to:
-1. Analyze the given prompt and identify distinct logical sections/topics
-2. Break it into meaningful segments that make sense independently
-3. Give each segment a clear, descriptive title
-4. Preserve all the original content - don't summarize or omit anything
-5. Return the result as a JSON array of objects with "title" and "content" fields
-
-Example format:
-[
-  {
-    "title": "Introduction and Context",
-    "content": "The original text content for this section..."
-  },
-  {
-    "title": "Main Requirements",
-    "content": "The original text content for this section..."
-  }
-]
-
-Make sure each segment is substantial enough to be useful but focused enough to be coherent.`
-          },
-          {
-            role: 'user',
-            content: `Please break this prompt into logical sections:\n\n${prompt}`
-          }
-        ],
-        ...temperatureParam,
-        ...tokenParam
-      });
+    const startedAt = Date.now();
+    // The response echoes the prompt inside JSON, so it runs slightly longer than the input
+    const expectedChars = Math.ceil(prompt.length * 1.1);
+    let receivedChars = 0;
+    let segments: PromptSegment[] = [];
 
-      console.log('[OpenAI] Raw response received:', response);
-      console.log('[OpenAI] Response choices:', response.choices);
-      console.log('[OpenAI] First choice:', response.choices[0]);
-      console.log('[OpenAI] Message content:', response.choices[0]?.message?.content);
-
-      const choice = response.choices[0];
-      const content = choice?.message?.content;
-      
-      if (!content) {
-        console.error('[OpenAI] No content in response - choices array:', response.choices);
-        console.error('[OpenAI] Full response object:', JSON.stringify(response, null, 2));
-        
-        // Provide better error message if truncated due to length
-        if (choice?.finish_reason === 'length') {
-          throw new Error('Response was truncated due to token limit. The prompt may be too large to process in one request.');
-        }
-        
-        throw new Error('No response from OpenAI');
-      }
-
-      // Parse the JSON response
-      const segments = JSON.parse(content);
-      
-      // Convert to PromptSegment objects
-      const result = segments.map((segment: { title?: string; content?: string }, index: number): PromptSegment => ({
-        id: `segment-${Date.now()}-${index}`,
+    const report = (raw: RawSegment[]) => {
+      segments = raw.map((segment, index): PromptSegment => ({
+        id: `segment-${startedAt}-${index}`,
         title: segment.title || `Segment ${index + 1}`,
         content: segment.content || '',
         isIncluded: true,
@@ -161,82 +395,327 @@ Make sure each segment is substantial enough to be useful but focused enough to
         isEditing: false,
         isExpanded: false
       }));
+      onProgress?.({ segments, receivedChars, expectedChars });
+    };
+    const onDelta = (chars: number) => {
+      receivedChars += chars;
+      onProgress?.({ segments, receivedChars, expectedChars });
+    };
+
+    try {
+      const queue = countTokens(prompt) > SEGMENT_WINDOW_TOKENS
+        ? planWindows(prompt, countTokens, SEGMENT_WINDOW_TOKENS, SEGMENT_OVERLAP_TOKENS)
+        : [{ start: 0, end: prompt.length }];
+      let chunked = queue.length > 1;
+      let merged: LocatedSegment[] = [];
+
+      if (chunked) {
+        console.log(`[AI] Prompt exceeds one response, segmenting in ${queue.length} windows`);
+      }
+
+      while (queue.length > 0) {
+        const window = queue.shift()!;
+        const windowText = prompt.slice(window.start, window.end);
+
+        try {
+          const raw = await this.streamSegments(windowText, signal, onDelta, (partial) => {
+            report(chunked ? mergeWindowSegments(prompt, merged, locateSegments(prompt, partial, window.start)) : partial);
+          });
+
+          if (chunked) {
+            merged = mergeWindowSegments(prompt, merged, locateSegments(prompt, raw, window.start));
+            report(merged);
+          } else {
+            report(raw);
+          }
+        } catch (error) {
+          const windowTokens = countTokens(windowText);
+          if (!(error instanceof TruncatedResponseError) || windowTokens < MIN_WINDOW_TOKENS * 2) {
+            throw error;
+          }
+
+          // Still too long for one response: halve the window and try again
+          const halves = planWindows(windowText, countTokens, Math.ceil(windowTokens / 2), SEGMENT_OVERLAP_TOKENS)
+            .map(span => ({ start: span.start + window.start, end: span.end + window.start }));
+          console.log(`[AI] Window truncated, retrying as ${halves.length} smaller windows`);
+          queue.unshift(...halves);
+          chunked = true;
+          report(merged);
+        }
+      }
+
+      if (chunked) {
+        const reconstruction = checkReconstruction(prompt, merged);
+        if (!reconstruction.ok) {
+          const missing = reconstruction.uncovered.reduce((sum, span) => sum + span.end - span.start, 0);
+          console.warn('[AI] Merged segments do not reconstruct the prompt:', reconstruction);
+          onWarning?.(
+            `Merged segments may not match the original prompt: ${missing.toLocaleString()} characters not covered` +
+            (reconstruction.unlocatedCount > 0 ? `, ${reconstruction.unlocatedCount} segments reworded` : '') +
+            '. Review the segments before relying on them.'
+          );
+        }
+      }
 
       // Cache the result
-      this.setCachedResult(cacheKey, result);
-      return result;
+      await responseCache.set(cacheKey, cacheRequest, segments);
+      return segments;
 
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`[AI] Segmentation cancelled after ${segments.length} segments`);
+        return segments;
+      }
       console.error('Error breaking prompt:', error);
-      throw new Error(`Failed to break prompt into segments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw describeFailure('break prompt into segments', error);
     }
   }
 
-  async makeConcise(content: string): Promise<string> {
-    if (!this.client || !this.config) {
-      throw new Error('OpenAI service not initialized');
+  /**
+   * Rewrites one segment's content. Every operation shares the cache and error
+   * handling; pass bypassCache to ask for a fresh rewrite instead of the cached one.
+   */
+  async rewriteSegment(
+    operation: RewriteOperation,
+    content: string,
+    options: { instruction?: string; bypassCache?: boolean; signal?: AbortSignal } = {}
+  ): Promise<string> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+    const definition = REWRITE_DEFINITIONS[operation];
+    const settings = aiSettings.get(operation);
+    const info = REWRITE_OPERATIONS[operation];
+    const instruction = options.instruction?.trim() ?? '';
+    if (info.instructionLabel && !instruction) {
+      throw new Error(`Failed to ${info.label.toLowerCase()}: no instruction given`);
     }
 
     // Check cache first
-    const cacheKey = this.generateCacheKey('make-concise', content);
-    const cached = this.getCachedResult(cacheKey);
+    const message = definition.buildUserMessage(content, instruction);
+    const cacheRequest = this.cacheRequest(this.config, operation, settings, message, content);
+    const cacheKey = await responseCache.createKey(cacheRequest);
+    const cached = options.bypassCache ? null : await responseCache.get(cacheKey);
     if (cached && typeof cached === 'string') {
-      console.log('[OpenAI] Using cached concise result');
+      console.log(`[AI] Using cached ${operation} result`);
       return cached;
     }
 
     try {
       // Use appropriate parameters based on model
-      const tokenParam = this.config.model === 'gpt-5-mini'
-        ? { max_completion_tokens: 2000 }
-        : { max_tokens: 2000 };
-      
-      const temperatureParam = this.config.model === 'gpt-5-mini'
-        ? { temperature: 1 }
-        : { temperature: 0.2 };
-
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
+      const temperature = isReasoningModel(this.config.model) ? 1 : settings.temperature;
+
+      const response = await this.complete({
         messages: [
           {
             role: 'system',
-            content: `You are an expert editor focused on making text more concise while preserving all important information and meaning.
-
-Your task is to:
-1. Remove redundancy and unnecessary words
-2. Combine similar ideas efficiently
-3. Use more precise and direct language
-4. Maintain the original tone and intent
-5. Keep all essential information and details
-6. Return only the revised text, no explanations
-
-The goal is to make the text clearer and more efficient, not to change its meaning or remove important content.`
+            content: settings.systemPrompt
           },
           {
             role: 'user',
-            content: `Please make this text more concise:\n\n${content}`
+            content: message
           }
         ],
-        ...temperatureParam,
-        ...tokenParam
+        temperature,
+        maxTokens: settings.maxTokens ?? undefined,
+        signal: options.signal
       });
 
-      const result = response.choices[0]?.message?.content;
+      const result = response.content;
+      if (response.finishReason === 'content_filter') {
+        throw contentFiltered();
+      }
       if (!result) {
-        throw new Error('No response from OpenAI');
+        throw new Error('No response from model');
+      }
+      if (response.finishReason === 'length') {
+        throw new TruncatedResponseError('The rewrite was cut off at the output limit. Try a shorter segment.');
       }
 
       const trimmedResult = result.trim();
       // Cache the result
-      this.setCachedResult(cacheKey, trimmedResult);
+      await responseCache.set(cacheKey, cacheRequest, trimmedResult);
       return trimmedResult;
 
     } catch (error) {
-      console.error('Error making content concise:', error);
-      throw new Error(`Failed to make content concise: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error(`Error running ${operation} rewrite:`, error);
+      throw describeFailure(info.label.toLowerCase(), error);
+    }
+  }
+
+  // Suggests a title for a segment from its content; shares the rewrite cache and error handling
+  async retitleSegment(content: string, options: { bypassCache?: boolean; signal?: AbortSignal } = {}): Promise<string> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+
+    const settings = aiSettings.get('retitle');
+    const message = buildRetitleUserMessage(content);
+    const cacheRequest = this.cacheRequest(this.config, 'retitle', settings, message, content);
+    const cacheKey = await responseCache.createKey(cacheRequest);
+    const cached = options.bypassCache ? null : await responseCache.get(cacheKey);
+    if (cached && typeof cached === 'string') {
+      console.log('[AI] Using cached title');
+      return cached;
+    }
+
+    try {
+      const response = await this.complete({
+        messages: [
+          { role: 'system', content: settings.systemPrompt },
+          { role: 'user', content: message }
+        ],
+        temperature: isReasoningModel(this.config.model) ? 1 : settings.temperature,
+        maxTokens: settings.maxTokens ?? undefined,
+        signal: options.signal
+      });
+
+      if (response.finishReason === 'content_filter') {
+        throw contentFiltered();
+      }
+      const title = cleanTitle(response.content);
+      if (!title) {
+        throw new Error('No response from model');
+      }
+
+      await responseCache.set(cacheKey, cacheRequest, title);
+      return title;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error('Error retitling segment:', error);
+      throw describeFailure('retitle segment', error);
     }
   }
 
+  /**
+   * Reviews the included segments together for contradictions, redundancy,
+   * ambiguity and missing sections. Findings refer to the given segments by id.
+   */
+  async analyzePrompt(
+    segments: PromptSegment[],
+    options: { bypassCache?: boolean; signal?: AbortSignal } = {}
+  ): Promise<AnalysisFinding[]> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+
+    const settings = aiSettings.get('analyze');
+    const message = buildAnalysisUserMessage(buildAnalysisInput(segments));
+    // Only the reply is cached; section numbers are mapped to the current segment ids on every call
+    const cacheRequest = this.cacheRequest(this.config, 'analyze', settings, message);
+    const cacheKey = await responseCache.createKey(cacheRequest);
+    const cached = options.bypassCache ? null : await responseCache.get(cacheKey);
+    if (cached && typeof cached === 'string') {
+      console.log('[AI] Using cached analysis');
+      return parseFindings(cached, segments);
+    }
+
+    try {
+      const response = await this.complete({
+        messages: [
+          { role: 'system', content: settings.systemPrompt },
+          { role: 'user', content: message }
+        ],
+        temperature: isReasoningModel(this.config.model) ? 1 : settings.temperature,
+        maxTokens: settings.maxTokens ?? undefined,
+        signal: options.signal
+      });
+
+      if (response.finishReason === 'content_filter') {
+        throw contentFiltered();
+      }
+      if (!response.content) {
+        throw new Error('No response from model');
+      }
+      if (response.finishReason === 'length') {
+        throw new TruncatedResponseError('The analysis was cut off at the output limit. Raise the limit in AI Settings.');
+      }
+
+      const findings = parseFindings(response.content, segments);
+      await responseCache.set(cacheKey, cacheRequest, response.content);
+      return findings;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error('Error analyzing prompt:', error);
+      throw describeFailure('analyze prompt', error);
+    }
+  }
+
+  /**
+   * Asks the model whether a reply meets a rubric. The verdict is read from the
+   * last VERDICT line, and the explanation before it is returned as the reason.
+   */
+  async judge(rubric: string, input: string, reply: string, signal?: AbortSignal): Promise<{ passed: boolean; reason: string }> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+
+    const settings = aiSettings.get('judge');
+    try {
+      const response = await this.complete({
+        messages: [
+          { role: 'system', content: settings.systemPrompt },
+          { role: 'user', content: buildJudgeUserMessage(rubric, input, reply) }
+        ],
+        temperature: isReasoningModel(this.config.model) ? 1 : settings.temperature,
+        maxTokens: settings.maxTokens ?? undefined,
+        signal
+      });
+
+      const verdicts = [...response.content.matchAll(/VERDICT:\s*(PASS|FAIL)/gi)];
+      const verdict = verdicts[verdicts.length - 1];
+      if (!verdict) {
+        throw new Error('The grader did not give a verdict');
+      }
+      return {
+        passed: verdict[1].toUpperCase() === 'PASS',
+        reason: response.content.slice(0, verdict.index).trim()
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error('Error grading reply:', error);
+      throw describeFailure('grade reply', error);
+    }
+  }
+
+  /**
+   * Sends a conversation under the given system prompt and streams the reply.
+   * Never cached, since the point is to see how the model answers right now.
+   */
+  async chat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: { signal?: AbortSignal; onDelta?: (delta: string) => void } = {}
+  ): Promise<ChatResult> {
+    if (!this.provider || !this.config) {
+      throw new Error('AI service not initialized');
+    }
+
+    try {
+      return await this.stream(
+        {
+          messages: [{ role: 'system', content: systemPrompt }, ...messages],
+          signal: options.signal
+        },
+        options.onDelta ?? (() => {})
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error('Error running chat:', error);
+      throw describeFailure('get a response', error);
+    }
+  }
 }
 
 export const openAIService = new OpenAIService();
\ No newline at end of file
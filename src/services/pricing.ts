@@ -0,0 +1,68 @@
+import type { OpenAIConfig } from '../types';
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Matched by longest prefix so dated snapshots (gpt-4o-2024-08-06) resolve too
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o3': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 }
+};
+
+const findPrice = (model: string): ModelPrice | null => {
+  const match = Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : null;
+};
+
+/**
+ * Returns the estimated USD cost of a call, or null when the price is unknown.
+ * Local servers and the mock provider are free; Azure deployments are looked up by deployment name,
+ * which only works when it matches the underlying model.
+ */
+export const estimateCost = (
+  config: Pick<OpenAIConfig, 'provider' | 'model'>,
+  inputTokens: number,
+  outputTokens: number
+): number | null => {
+  if (config.provider === 'ollama' || config.provider === 'mock') {
+    return 0;
+  }
+
+  const price = findPrice(config.model);
+  if (!price) {
+    return null;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) {
+    return 'cost unknown';
+  }
+  if (cost === 0) {
+    return 'free';
+  }
+  if (cost < 0.01) {
+    return `$${cost.toFixed(4)}`;
+  }
+  return `$${cost.toFixed(2)}`;
+};
@@ -0,0 +1,432 @@
+import { PromptSegment } from '../components/PromptSegment';
+import { VARIABLE_NAME_PATTERN } from '../utils/templateVariables';
+import { ASSERTION_LABELS } from '../utils/evaluation';
+import { normalizeTree } from '../utils/segmentTree';
+import { ASSEMBLY_FORMATS, DEFAULT_ASSEMBLY } from '../utils/assembly';
+import type {
+  AssemblyOptions,
+  EvalCase,
+  Project,
+  PromptSnapshot,
+  PromptVariant,
+  SegmentationMode,
+  TemplateVariable
+} from '../types';
+
+/**
+ * Project files are JSON documents shaped like:
+ *
+ *   {
+ *     "format": "prompt-editor-project",
+ *     "version": 7,
+ *     "exportedAt": "2025-01-01T00:00:00.000Z",
+ *     "project": { "name": "...", "originalPrompt": "...", "createdAt": 0, "updatedAt": 0 },
+ *     "segments": [{ "id": "...", "title": "...", "content": "...", "isIncluded": true, "order": 0, "parentId": "..." }],
+ *     "variables": [{ "name": "user_name", "type": "text", "defaultValue": "Ada" }],
+ *     "variants": [{ "id": "...", "name": "Short", "segmentIds": ["..."], "createdAt": 0 }],
+ *     "evalCases": [{ "id": "...", "name": "...", "input": "...", "assertions": [{ "id": "...", "type": "contains", "value": "..." }] }],
+ *     "assembly": { "format": "xml", "separator": "\\n\\n", "template": "{content}" },
+ *     "snapshots": [{ "id": "...", "name": "Before trimming", "createdAt": 0, "output": "..." }],
+ *     "settings": { "segmentationMode": "ai" }
+ *   }
+ *
+ * Bump PROJECT_FILE_VERSION when the shape changes and add a migration from
+ * the previous version to MIGRATIONS, so older files keep importing.
+ */
+export const PROJECT_FILE_FORMAT = 'prompt-editor-project';
+export const PROJECT_FILE_VERSION = 7;
+const VARIABLE_TYPES = ['text', 'multiline', 'number', 'boolean', 'json'];
+export const PROJECT_FILE_EXTENSION = '.prompt.json';
+
+export interface ProjectFileSettings {
+  segmentationMode?: SegmentationMode;
+}
+
+export interface ProjectFileSegment {
+  id: string;
+  title: string;
+  content: string;
+  isIncluded: boolean;
+  order: number;
+  // Absent for top-level segments
+  parentId?: string;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    originalPrompt: string;
+    createdAt: number;
+    updatedAt: number;
+  };
+  segments: ProjectFileSegment[];
+  variables: TemplateVariable[];
+  variants: PromptVariant[];
+  evalCases: EvalCase[];
+  assembly: AssemblyOptions;
+  snapshots: PromptSnapshot[];
+  settings: ProjectFileSettings;
+}
+
+export interface ImportedProject {
+  name: string;
+  originalPrompt: string;
+  segments: PromptSegment[];
+  variables: TemplateVariable[];
+  variants: PromptVariant[];
+  evalCases: EvalCase[];
+  assembly: AssemblyOptions;
+  snapshots: PromptSnapshot[];
+  settings: ProjectFileSettings;
+}
+
+// The error banner lists this many problems; the rest are summarized as a count
+const MAX_REPORTED_PROBLEMS = 3;
+
+export class ProjectFileError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+    const hidden = problems.length - MAX_REPORTED_PROBLEMS;
+    super(hidden > 0 ? `${shown} (and ${hidden} more)` : shown);
+    this.name = 'ProjectFileError';
+    this.problems = problems;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Each entry upgrades a file from version `key` to `key + 1`. Version 0 is the
+ * bare `{ originalPrompt, segments, timestamp }` session object older builds
+ * kept in local storage, which people have copied out by hand.
+ */
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  0: (data) => {
+    const timestamp = typeof data.timestamp === 'number' ? data.timestamp : Date.now();
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date(timestamp).toISOString(),
+      project: {
+        name: 'Imported session',
+        originalPrompt: data.originalPrompt,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      },
+      segments: data.segments,
+      settings: {}
+    };
+  },
+  // Version 2 added template variables
+  1: (data) => ({ ...data, version: 2, variables: [] }),
+  // Version 3 added segment variants
+  2: (data) => ({ ...data, version: 3, variants: [] }),
+  // Version 4 added evaluation cases
+  3: (data) => ({ ...data, version: 4, evalCases: [] }),
+  // Version 5 added segment nesting through an optional parentId
+  4: (data) => ({ ...data, version: 5 }),
+  // Version 6 added the output format
+  5: (data) => ({ ...data, version: 6, assembly: DEFAULT_ASSEMBLY }),
+  // Version 7 added output snapshots
+  6: (data) => ({ ...data, version: 7, snapshots: [] })
+};
+
+const detectVersion = (data: JsonObject): number => {
+  if (data.format === undefined && data.version === undefined && 'originalPrompt' in data) {
+    return 0;
+  }
+  if (data.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError(['This is not a Prompt Editor project file (missing "format": "prompt-editor-project")']);
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new ProjectFileError(['"version" must be a positive whole number']);
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError([
+      `This file uses format version ${data.version}, but this editor only understands up to version ${PROJECT_FILE_VERSION}. Update the editor to import it.`
+    ]);
+  }
+  return data.version;
+};
+
+const validate = (data: JsonObject): ProjectFile => {
+  const problems: string[] = [];
+  const expect = (condition: boolean, message: string) => {
+    if (!condition) problems.push(message);
+  };
+
+  const project = data.project;
+  if (!isObject(project)) {
+    problems.push('"project" must be an object');
+  } else {
+    expect(typeof project.name === 'string', 'project.name must be a string');
+    expect(typeof project.originalPrompt === 'string', 'project.originalPrompt must be a string');
+    expect(project.createdAt === undefined || typeof project.createdAt === 'number', 'project.createdAt must be a number');
+    expect(project.updatedAt === undefined || typeof project.updatedAt === 'number', 'project.updatedAt must be a number');
+  }
+
+  if (!Array.isArray(data.segments)) {
+    problems.push('"segments" must be an array');
+  } else {
+    const ids = new Set<string>();
+    data.segments.forEach((segment: unknown, index) => {
+      const path = `segments[${index}]`;
+      if (!isObject(segment)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      expect(typeof segment.id === 'string' && segment.id.length > 0, `${path}.id must be a non-empty string`);
+      expect(typeof segment.title === 'string', `${path}.title must be a string`);
+      expect(typeof segment.content === 'string', `${path}.content must be a string`);
+      expect(typeof segment.isIncluded === 'boolean', `${path}.isIncluded must be true or false`);
+      expect(typeof segment.order === 'number', `${path}.order must be a number`);
+      expect(segment.parentId === undefined || typeof segment.parentId === 'string', `${path}.parentId must be a string`);
+      if (typeof segment.id === 'string') {
+        expect(!ids.has(segment.id), `${path}.id "${segment.id}" is used by more than one segment`);
+        ids.add(segment.id);
+      }
+    });
+  }
+
+  if (!Array.isArray(data.variables)) {
+    problems.push('"variables" must be an array');
+  } else {
+    const names = new Set<string>();
+    data.variables.forEach((variable: unknown, index) => {
+      const path = `variables[${index}]`;
+      if (!isObject(variable)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      expect(
+        typeof variable.name === 'string' && VARIABLE_NAME_PATTERN.test(variable.name),
+        `${path}.name must be a variable name like user_name`
+      );
+      expect(
+        typeof variable.type === 'string' && VARIABLE_TYPES.includes(variable.type),
+        `${path}.type must be one of ${VARIABLE_TYPES.join(', ')}`
+      );
+      expect(typeof variable.defaultValue === 'string', `${path}.defaultValue must be a string`);
+      expect(variable.description === undefined || typeof variable.description === 'string', `${path}.description must be a string`);
+      if (typeof variable.name === 'string') {
+        expect(!names.has(variable.name), `${path}.name "${variable.name}" is defined more than once`);
+        names.add(variable.name);
+      }
+    });
+  }
+
+  if (!Array.isArray(data.variants)) {
+    problems.push('"variants" must be an array');
+  } else {
+    data.variants.forEach((variant: unknown, index) => {
+      const path = `variants[${index}]`;
+      if (!isObject(variant)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      expect(typeof variant.id === 'string' && variant.id.length > 0, `${path}.id must be a non-empty string`);
+      expect(typeof variant.name === 'string', `${path}.name must be a string`);
+      expect(
+        Array.isArray(variant.segmentIds) && variant.segmentIds.every(id => typeof id === 'string'),
+        `${path}.segmentIds must be an array of segment ids`
+      );
+      expect(variant.createdAt === undefined || typeof variant.createdAt === 'number', `${path}.createdAt must be a number`);
+    });
+  }
+
+  if (!Array.isArray(data.evalCases)) {
+    problems.push('"evalCases" must be an array');
+  } else {
+    data.evalCases.forEach((testCase: unknown, index) => {
+      const path = `evalCases[${index}]`;
+      if (!isObject(testCase)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      expect(typeof testCase.id === 'string' && testCase.id.length > 0, `${path}.id must be a non-empty string`);
+      expect(typeof testCase.name === 'string', `${path}.name must be a string`);
+      expect(typeof testCase.input === 'string', `${path}.input must be a string`);
+      if (!Array.isArray(testCase.assertions)) {
+        problems.push(`${path}.assertions must be an array`);
+        return;
+      }
+      testCase.assertions.forEach((assertion: unknown, assertionIndex) => {
+        const assertionPath = `${path}.assertions[${assertionIndex}]`;
+        if (!isObject(assertion)) {
+          problems.push(`${assertionPath} must be an object`);
+          return;
+        }
+        expect(typeof assertion.id === 'string' && assertion.id.length > 0, `${assertionPath}.id must be a non-empty string`);
+        expect(
+          typeof assertion.type === 'string' && assertion.type in ASSERTION_LABELS,
+          `${assertionPath}.type must be one of ${Object.keys(ASSERTION_LABELS).join(', ')}`
+        );
+        expect(typeof assertion.value === 'string', `${assertionPath}.value must be a string`);
+      });
+    });
+  }
+
+  const assembly = data.assembly;
+  if (!isObject(assembly)) {
+    problems.push('"assembly" must be an object');
+  } else {
+    expect(
+      typeof assembly.format === 'string' && (ASSEMBLY_FORMATS as string[]).includes(assembly.format),
+      `assembly.format must be one of ${ASSEMBLY_FORMATS.join(', ')}`
+    );
+    expect(typeof assembly.separator === 'string', 'assembly.separator must be a string');
+    expect(typeof assembly.template === 'string', 'assembly.template must be a string');
+  }
+
+  if (!Array.isArray(data.snapshots)) {
+    problems.push('"snapshots" must be an array');
+  } else {
+    data.snapshots.forEach((snapshot: unknown, index) => {
+      const path = `snapshots[${index}]`;
+      if (!isObject(snapshot)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      expect(typeof snapshot.id === 'string' && snapshot.id.length > 0, `${path}.id must be a non-empty string`);
+      expect(typeof snapshot.name === 'string', `${path}.name must be a string`);
+      expect(typeof snapshot.output === 'string', `${path}.output must be a string`);
+      expect(snapshot.createdAt === undefined || typeof snapshot.createdAt === 'number', `${path}.createdAt must be a number`);
+    });
+  }
+
+  const settings = data.settings;
+  if (settings !== undefined && !isObject(settings)) {
+    problems.push('"settings" must be an object');
+  } else if (settings) {
+    expect(
+      settings.segmentationMode === undefined || settings.segmentationMode === 'ai' || settings.segmentationMode === 'structural',
+      'settings.segmentationMode must be "ai" or "structural"'
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new ProjectFileError(problems);
+  }
+  return data as unknown as ProjectFile;
+};
+
+/**
+ * Parses, migrates and validates a project file. Throws ProjectFileError with
+ * every problem found, so the user can fix a hand-edited file in one pass.
+ */
+export const parseProjectFile = (text: string): ImportedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError([`The file is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`]);
+  }
+  if (!isObject(data)) {
+    throw new ProjectFileError(['The file must contain a JSON object']);
+  }
+
+  let migrated = data;
+  for (let version = detectVersion(data); version < PROJECT_FILE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  const file = validate(migrated);
+
+  return {
+    name: file.project.name.trim() || 'Imported project',
+    originalPrompt: file.project.originalPrompt,
+    // A parent missing from the file makes its subsections top-level
+    segments: normalizeTree(file.segments.map(segment => ({
+      id: segment.id,
+      title: segment.title,
+      content: segment.content,
+      isIncluded: segment.isIncluded,
+      order: segment.order,
+      isEditing: false,
+      isExpanded: false,
+      ...(segment.parentId !== undefined && { parentId: segment.parentId })
+    }))),
+    variables: file.variables.map(variable => ({
+      name: variable.name,
+      type: variable.type,
+      defaultValue: variable.defaultValue,
+      ...(variable.description !== undefined && { description: variable.description })
+    })),
+    // Ids of segments missing from the file are dropped rather than rejected
+    variants: file.variants.map(variant => ({
+      id: variant.id,
+      name: variant.name,
+      segmentIds: variant.segmentIds.filter(id => file.segments.some(s => s.id === id)),
+      createdAt: variant.createdAt ?? Date.now()
+    })),
+    evalCases: file.evalCases.map(testCase => ({
+      id: testCase.id,
+      name: testCase.name,
+      input: testCase.input,
+      assertions: testCase.assertions.map(({ id, type, value }) => ({ id, type, value }))
+    })),
+    assembly: {
+      format: file.assembly.format,
+      separator: file.assembly.separator,
+      template: file.assembly.template
+    },
+    snapshots: file.snapshots.map(snapshot => ({
+      id: snapshot.id,
+      name: snapshot.name,
+      createdAt: snapshot.createdAt ?? Date.now(),
+      output: snapshot.output
+    })),
+    settings: file.settings ?? {}
+  };
+};
+
+export const serializeProject = (project: Project, settings: ProjectFileSettings): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      originalPrompt: project.originalPrompt,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt
+    },
+    segments: project.segments.map(segment => ({
+      id: segment.id,
+      title: segment.title,
+      content: segment.content,
+      isIncluded: segment.isIncluded,
+      order: segment.order,
+      ...(segment.parentId && { parentId: segment.parentId })
+    })),
+    variables: project.variables,
+    variants: project.variants,
+    evalCases: project.evalCases,
+    assembly: project.assembly,
+    snapshots: project.snapshots,
+    settings
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const projectFileName = (name: string) =>
+  (name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project') + PROJECT_FILE_EXTENSION;
+
+export const downloadProjectFile = (project: Project, settings: ProjectFileSettings) => {
+  const blob = new Blob([serializeProject(project, settings)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = projectFileName(project.name);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
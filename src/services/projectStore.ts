@@ -0,0 +1,125 @@
+import { PROJECTS_STORE, withStore } from './db';
+import { emptyHistory, restoreHistory } from '../utils/history';
+import { DEFAULT_ASSEMBLY, normalizeAssembly } from '../utils/assembly';
+import type { Project, ProjectSummary } from '../types';
+
+// Single-session storage used before projects existed; imported once then removed
+const LEGACY_SESSION_KEY = 'prompt-editor-session';
+
+const createId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  originalPrompt: project.originalPrompt,
+  segmentCount: project.segments.length,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+export const createProject = (
+  name: string,
+  content: Partial<Pick<Project, 'originalPrompt' | 'segments' | 'history' | 'variables' | 'variants' | 'evalCases' | 'assembly' | 'revisions' | 'snapshots'>> = {}
+): Project => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    originalPrompt: content.originalPrompt ?? '',
+    segments: content.segments ?? [],
+    history: content.history ?? emptyHistory(),
+    variables: content.variables ?? [],
+    variants: content.variants ?? [],
+    evalCases: content.evalCases ?? [],
+    assembly: content.assembly ?? DEFAULT_ASSEMBLY,
+    revisions: content.revisions ?? {},
+    snapshots: content.snapshots ?? [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+class ProjectStore {
+  // Most recently edited first
+  async list(): Promise<ProjectSummary[]> {
+    const projects = await withStore<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+    return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const project = await withStore<Project | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+    // Projects saved before a field existed get its default
+    return project
+      ? {
+        ...project,
+        history: restoreHistory(project.history),
+        variables: project.variables ?? [],
+        variants: project.variants ?? [],
+        evalCases: project.evalCases ?? [],
+        assembly: normalizeAssembly(project.assembly),
+        revisions: project.revisions ?? {},
+        snapshots: project.snapshots ?? []
+      }
+      : null;
+  }
+
+  async save(project: Project): Promise<void> {
+    await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+  }
+
+  async delete(id: string): Promise<void> {
+    await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  async duplicate(id: string): Promise<Project | null> {
+    const source = await this.get(id);
+    if (!source) {
+      return null;
+    }
+    const copy = createProject(`${source.name} (copy)`, {
+      originalPrompt: source.originalPrompt,
+      segments: source.segments,
+      history: source.history,
+      variables: source.variables,
+      variants: source.variants,
+      evalCases: source.evalCases,
+      assembly: source.assembly,
+      revisions: source.revisions,
+      snapshots: source.snapshots
+    });
+    await this.save(copy);
+    return copy;
+  }
+
+  /**
+   * Moves the old localStorage session, if any, into a project of its own.
+   * Returns the new project, or null if there was nothing to migrate.
+   */
+  async migrateLegacySession(): Promise<Project | null> {
+    const saved = localStorage.getItem(LEGACY_SESSION_KEY);
+    if (!saved) {
+      return null;
+    }
+
+    try {
+      const sessionData = JSON.parse(saved);
+      if (!sessionData.originalPrompt && !sessionData.segments?.length) {
+        localStorage.removeItem(LEGACY_SESSION_KEY);
+        return null;
+      }
+      const project = createProject('Untitled prompt', {
+        originalPrompt: sessionData.originalPrompt || '',
+        segments: sessionData.segments || [],
+        history: restoreHistory(sessionData.history)
+      });
+      await this.save(project);
+      localStorage.removeItem(LEGACY_SESSION_KEY);
+      return project;
+    } catch (error) {
+      console.error('Failed to migrate saved session:', error);
+      return null;
+    }
+  }
+}
+
+export const projectStore = new ProjectStore();
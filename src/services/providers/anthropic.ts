@@ -0,0 +1,169 @@
+import type { OpenAIConfig } from '../../types';
+import { AIError, kindFromStatus, parseRetryAfter } from '../aiErrors';
+import type { ChatRequest, ChatResult, LLMProvider } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+// The Messages API requires an explicit output limit
+const DEFAULT_MAX_TOKENS = 8192;
+
+// Output limits by model name prefix; a larger max_tokens is rejected as an invalid request
+const MODEL_OUTPUT_LIMITS: [string, number][] = [
+  ['claude-3-5-haiku', 8192],
+  ['claude-3-5-sonnet', 8192],
+  ['claude-3-haiku', 4096],
+  ['claude-3-opus', 4096],
+  ['claude-3-7-sonnet', 64000],
+  ['claude-sonnet-4', 64000],
+  ['claude-opus-4', 32000]
+];
+
+const outputLimit = (model: string): number | undefined =>
+  MODEL_OUTPUT_LIMITS.find(([prefix]) => model.startsWith(prefix))?.[1];
+
+interface AnthropicResponse {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string | null;
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  error?: { type?: string; message?: string };
+}
+
+const normalizeStopReason = (reason: string | null | undefined): ChatResult['finishReason'] => {
+  if (reason === 'max_tokens') return 'length';
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  if (reason === 'refusal') return 'content_filter';
+  return 'other';
+};
+
+/**
+ * Adapter for the Anthropic Messages API. Uses fetch directly since the
+ * request shape is small and it keeps another SDK out of the bundle.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  constructor(config: OpenAIConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+    // Anthropic takes the system prompt as a top-level field, not a message
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }));
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: system || undefined,
+        messages,
+        max_tokens: Math.min(request.maxTokens ?? DEFAULT_MAX_TOKENS, outputLimit(this.model) ?? Infinity),
+        temperature: request.temperature,
+        stream
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const data: AnthropicResponse = await response.json().catch(() => ({}));
+      const message = data.error?.message || `Anthropic API error (${response.status})`;
+      throw new AIError(kindFromStatus(response.status, message), message, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers)
+      });
+    }
+    return response;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatResult> {
+    const response = await this.send(request, false);
+    const data: AnthropicResponse = await response.json();
+
+    const content = (data.content ?? [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    return {
+      content,
+      finishReason: normalizeStopReason(data.stop_reason)
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const response = await this.send(request, true);
+    if (!response.body) {
+      throw new Error('Anthropic API returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let stopReason: string | null | undefined = null;
+
+    const handleEvent = (raw: string) => {
+      const data = raw
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('');
+      if (!data) return;
+
+      const event: AnthropicStreamEvent = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta?.stop_reason ?? stopReason;
+      } else if (event.type === 'error') {
+        // An overloaded API can also fail part way through a stream
+        const kind = event.error?.type === 'overloaded_error' ? 'server' : 'unknown';
+        throw new AIError(kind, event.error?.message || 'Anthropic stream error');
+      }
+    };
+
+    // Server-sent events are separated by a blank line
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    if (buffer.trim()) {
+      handleEvent(buffer);
+    }
+
+    return {
+      content,
+      finishReason: normalizeStopReason(stopReason)
+    };
+  }
+}
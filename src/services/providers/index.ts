@@ -0,0 +1,83 @@
+import type { OpenAIConfig, ProviderId } from '../../types';
+import { AnthropicProvider } from './anthropic';
+import { MockProvider } from './mock';
+import { OpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export type { ChatMessage, ChatRequest, ChatResult, LLMProvider } from './types';
+export { isReasoningModel } from './openai';
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  baseUrlPlaceholder: string;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-5-mini',
+    suggestedModels: ['gpt-5-mini', 'gpt-4o-mini', 'gpt-3.5-turbo'],
+    requiresApiKey: true,
+    baseUrlPlaceholder: 'https://api.openai.com/v1'
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-0',
+    suggestedModels: ['claude-sonnet-4-0', 'claude-opus-4-1', 'claude-3-5-haiku-latest'],
+    requiresApiKey: true,
+    baseUrlPlaceholder: 'https://api.anthropic.com'
+  },
+  azure: {
+    id: 'azure',
+    label: 'Azure OpenAI',
+    defaultModel: '',
+    suggestedModels: [],
+    requiresApiKey: true,
+    baseUrlPlaceholder: 'https://your-resource.openai.azure.com'
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama / OpenAI-compatible',
+    defaultModel: 'llama3.1',
+    suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+    requiresApiKey: false,
+    baseUrlPlaceholder: 'http://localhost:11434/v1'
+  },
+  mock: {
+    id: 'mock',
+    label: 'Mock (offline)',
+    defaultModel: 'mock',
+    suggestedModels: ['mock'],
+    requiresApiKey: false,
+    baseUrlPlaceholder: ''
+  }
+};
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export const createProvider = (config: OpenAIConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'azure':
+      return new OpenAIProvider({
+        ...config,
+        apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION
+      });
+    case 'mock':
+      return new MockProvider();
+    case 'ollama':
+      return new OpenAIProvider({
+        ...config,
+        baseUrl: config.baseUrl || PROVIDERS.ollama.baseUrlPlaceholder
+      });
+    default:
+      return new OpenAIProvider(config);
+  }
+};
@@ -0,0 +1,58 @@
+import type { ChatRequest, ChatResult, LLMProvider } from './types';
+
+// Roughly how many characters a token covers, used to apply maxTokens
+const CHARS_PER_TOKEN = 4;
+const STREAM_DELAY_MS = 15;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('The request was aborted', 'AbortError'));
+    return;
+  }
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(new DOMException('The request was aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Offline stand-in for a real model. Replies are deterministic: the last user
+ * message followed by the system prompt, so checks like "contains" exercise the
+ * assembled prompt without any network calls. Grading requests, recognized by
+ * their VERDICT instruction, always pass.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+
+  private reply(request: ChatRequest): ChatResult {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const user = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+    const content = system.includes('VERDICT:')
+      ? 'Mock grader: no model was called.\nVERDICT: PASS'
+      : `Mock reply to: ${user}\n\n${system}`;
+
+    const limit = request.maxTokens !== undefined ? request.maxTokens * CHARS_PER_TOKEN : Infinity;
+    return content.length > limit
+      ? { content: content.slice(0, limit), finishReason: 'length' }
+      : { content, finishReason: 'stop' };
+  }
+
+  async complete(request: ChatRequest): Promise<ChatResult> {
+    await sleep(STREAM_DELAY_MS, request.signal);
+    return this.reply(request);
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const result = this.reply(request);
+    // Line by line, so streaming UI has something to show
+    for (const line of result.content.match(/[^\n]*\n?/g) ?? []) {
+      if (line) {
+        await sleep(STREAM_DELAY_MS, request.signal);
+        onDelta(line);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,140 @@
+import OpenAI, { APIConnectionError, APIConnectionTimeoutError, APIError, AzureOpenAI } from 'openai';
+import type { OpenAIConfig } from '../../types';
+import { AIError, kindFromStatus, parseRetryAfter } from '../aiErrors';
+import type { ChatRequest, ChatResult, LLMProvider } from './types';
+
+// Reasoning models reject custom temperatures and the legacy max_tokens parameter
+export const isReasoningModel = (model: string): boolean =>
+  /^(gpt-5|o\d)/.test(model);
+
+// SDK errors carry the status, code and headers the request queue needs to decide on a retry
+const translateError = (error: unknown): unknown => {
+  if (error instanceof APIConnectionTimeoutError) {
+    return new AIError('timeout', error.message);
+  }
+  if (error instanceof APIConnectionError) {
+    return new AIError('network', error.message);
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    const kind = error.code === 'insufficient_quota'
+      ? 'quota'
+      : error.code === 'content_filter'
+        ? 'content_filter'
+        : kindFromStatus(error.status, error.message);
+    return new AIError(kind, error.message, {
+      status: error.status,
+      retryAfterMs: parseRetryAfter(error.headers)
+    });
+  }
+  return error;
+};
+
+/**
+ * Adapter for the OpenAI chat completions API. Also serves Azure OpenAI and any
+ * OpenAI-compatible server (Ollama, vLLM, LM Studio) since they share the wire format.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly id: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(config: OpenAIConfig) {
+    this.id = config.provider;
+    this.model = config.model;
+
+    if (config.provider === 'azure') {
+      this.client = new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseUrl,
+        apiVersion: config.apiVersion,
+        deployment: config.model,
+        // Retries are left to the request queue
+        maxRetries: 0,
+        dangerouslyAllowBrowser: true
+      });
+    } else {
+      this.client = new OpenAI({
+        // Local servers ignore the key, but the SDK refuses to start without one
+        apiKey: config.apiKey || 'not-needed',
+        baseURL: config.baseUrl || undefined,
+        maxRetries: 0,
+        dangerouslyAllowBrowser: true
+      });
+    }
+  }
+
+  private buildParams(request: ChatRequest) {
+    const reasoning = isReasoningModel(this.model);
+    const tokenParam = request.maxTokens === undefined
+      ? {}
+      : reasoning
+        ? { max_completion_tokens: request.maxTokens }
+        : { max_tokens: request.maxTokens };
+    const temperatureParam = request.temperature === undefined
+      ? {}
+      : { temperature: request.temperature };
+
+    return {
+      model: this.model,
+      messages: request.messages,
+      ...temperatureParam,
+      ...tokenParam
+    };
+  }
+
+  async complete(request: ChatRequest): Promise<ChatResult> {
+    try {
+      const response = await this.client.chat.completions.create(
+        this.buildParams(request),
+        { signal: request.signal }
+      );
+
+      const choice = response.choices[0];
+      return {
+        content: choice?.message?.content ?? '',
+        finishReason: normalizeFinishReason(choice?.finish_reason)
+      };
+    } catch (error) {
+      throw translateError(error);
+    }
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...this.buildParams(request), stream: true },
+        { signal: request.signal }
+      );
+
+      let content = '';
+      let finishReason: string | null | undefined = null;
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+      }
+
+      return {
+        content,
+        finishReason: normalizeFinishReason(finishReason)
+      };
+    } catch (error) {
+      throw translateError(error);
+    }
+  }
+}
+
+const normalizeFinishReason = (reason: string | null | undefined): ChatResult['finishReason'] => {
+  switch (reason) {
+    case 'stop':
+    case 'length':
+    case 'content_filter':
+      return reason;
+    default:
+      return 'other';
+  }
+};
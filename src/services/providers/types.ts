@@ -0,0 +1,29 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  // Omit to let the provider use its own output limit
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  content: string;
+  // Normalized across providers; 'length' means the output was cut off
+  finishReason: 'stop' | 'length' | 'content_filter' | 'other';
+}
+
+/**
+ * A chat-completion backend. Adapters translate the provider-neutral request
+ * into each vendor's wire format so OpenAIService never touches an SDK directly.
+ */
+export interface LLMProvider {
+  readonly id: string;
+  complete(request: ChatRequest): Promise<ChatResult>;
+  // Calls onDelta with each text fragment as it arrives, then resolves with the full result
+  stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult>;
+}
@@ -0,0 +1,240 @@
+import { AIError, toAIError } from './aiErrors';
+import type { AIErrorKind, RequestSettings } from '../types';
+
+const SETTINGS_KEY = 'prompt-editor-request-settings';
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+  concurrency: 2,
+  maxRetries: 3,
+  // Reasoning models can think for minutes before the first token of a long reply
+  timeoutSeconds: 180
+};
+
+export const REQUEST_SETTINGS_LIMITS: Record<keyof RequestSettings, { min: number; max: number }> = {
+  concurrency: { min: 1, max: 10 },
+  maxRetries: { min: 0, max: 10 },
+  timeoutSeconds: { min: 0, max: 1800 }
+};
+
+// Backoff doubles from the base delay up to the cap, with jitter so parallel requests spread out
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// A Retry-After longer than this fails the request instead of holding it
+const MAX_RETRY_AFTER_MS = 120000;
+
+export interface RetryNotice {
+  id: number;
+  kind: AIErrorKind;
+  // The attempt about to be made, counting the first
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface QueueStatus {
+  active: number;
+  waiting: number;
+  retrying: RetryNotice[];
+}
+
+export interface Attempt {
+  signal: AbortSignal;
+  // Restarts the timeout, for streamed replies that are still arriving
+  touch: () => void;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  // Asked before each retry; a stream that has already delivered text cannot be replayed
+  canRetry?: () => boolean;
+}
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, ms);
+  const cancel = () => {
+    clearTimeout(timeoutId);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+const clamp = (value: unknown, key: keyof RequestSettings) => {
+  const { min, max } = REQUEST_SETTINGS_LIMITS[key];
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : DEFAULT_REQUEST_SETTINGS[key];
+};
+
+export const normalizeRequestSettings = (value: Partial<RequestSettings>): RequestSettings => ({
+  concurrency: clamp(value.concurrency ?? DEFAULT_REQUEST_SETTINGS.concurrency, 'concurrency'),
+  maxRetries: clamp(value.maxRetries ?? DEFAULT_REQUEST_SETTINGS.maxRetries, 'maxRetries'),
+  timeoutSeconds: clamp(value.timeoutSeconds ?? DEFAULT_REQUEST_SETTINGS.timeoutSeconds, 'timeoutSeconds')
+});
+
+const loadSettings = (): RequestSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return normalizeRequestSettings(stored ? JSON.parse(stored) : {});
+  } catch (error) {
+    console.warn('Failed to load request settings:', error);
+    return DEFAULT_REQUEST_SETTINGS;
+  }
+};
+
+/**
+ * Every request to the model passes through here. At most `concurrency` run at
+ * once, each attempt is given a timeout, and rate limits, timeouts and transient
+ * network or server failures are retried with exponential backoff, waiting as
+ * long as the provider's Retry-After asks. Other failures reject at once.
+ */
+class RequestQueue {
+  private settings = loadSettings();
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private retrying: RetryNotice[] = [];
+  private nextId = 1;
+  private listeners = new Set<(status: QueueStatus) => void>();
+
+  getSettings(): RequestSettings {
+    return this.settings;
+  }
+
+  setSettings(settings: Partial<RequestSettings>): RequestSettings {
+    this.settings = normalizeRequestSettings({ ...this.settings, ...settings });
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    // A raised limit lets waiting requests start now
+    this.pump();
+    return this.settings;
+  }
+
+  getStatus(): QueueStatus {
+    return { active: this.active, waiting: this.waiting.length, retrying: this.retrying };
+  }
+
+  subscribe(listener: (status: QueueStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async run<T>(task: (attempt: Attempt) => Promise<T>, options: RunOptions = {}): Promise<T> {
+    const { signal } = options;
+    await this.acquire(signal);
+    const id = this.nextId++;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await this.attempt(task, signal);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          const failure = toAIError(error);
+          const maxAttempts = this.settings.maxRetries + 1;
+          const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+          const delayMs = failure.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2;
+          if (
+            !failure.retryable ||
+            attempt >= maxAttempts ||
+            delayMs > MAX_RETRY_AFTER_MS ||
+            options.canRetry?.() === false
+          ) {
+            throw failure;
+          }
+
+          console.warn(`[AI] ${failure.kind} on attempt ${attempt}, retrying in ${Math.round(delayMs)} ms:`, failure.message);
+          this.retrying = [...this.retrying, { id, kind: failure.kind, attempt: attempt + 1, maxAttempts, delayMs }];
+          this.notify();
+          try {
+            await wait(delayMs, signal);
+          } finally {
+            this.retrying = this.retrying.filter(notice => notice.id !== id);
+            this.notify();
+          }
+        }
+      }
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  // One try, aborted if the caller aborts or nothing arrives within the timeout
+  private async attempt<T>(task: (attempt: Attempt) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    const { timeoutSeconds } = this.settings;
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timeoutId);
+      if (timeoutSeconds > 0) {
+        timeoutId = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutSeconds * 1000);
+      }
+    };
+
+    touch();
+    try {
+      return await task({ signal: controller.signal, touch });
+    } catch (error) {
+      if (timedOut && !signal?.aborted) {
+        throw new AIError('timeout', `No response from the model within ${timeoutSeconds} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', cancel);
+        this.active++;
+        resolve();
+      };
+      const cancel = () => {
+        this.waiting = this.waiting.filter(entry => entry !== start);
+        this.notify();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+      this.waiting.push(start);
+      this.pump();
+    });
+  }
+
+  // Starts waiting requests, oldest first, while there is room
+  private pump() {
+    while (this.active < this.settings.concurrency && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const requestQueue = new RequestQueue();
@@ -0,0 +1,150 @@
+import { RESPONSE_CACHE_STORE, withStore } from './db';
+import type { CachedResponse, OperationSettings } from '../types';
+
+const BYPASS_KEY = 'prompt-editor-bypass-cache';
+// Earlier builds kept replies in localStorage under 32-bit hash keys, which could collide
+const LEGACY_PREFIX = 'prompt-editor-cache-';
+
+// Least recently used entries are evicted once the cache grows past this
+export const MAX_CACHE_BYTES = 5 * 1024 * 1024;
+const PREVIEW_LENGTH = 120;
+
+// Everything that can change the reply; two requests share an entry only if all of it matches
+export interface CacheRequest {
+  operation: string;
+  provider: string;
+  // The base URL, which tells apart local servers or Azure resources serving the same model name
+  endpoint: string;
+  model: string;
+  settings: OperationSettings;
+  input: string;
+  // Shown in the cache manager instead of the start of the input, which may be boilerplate
+  preview?: string;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const removeLegacyEntries = () => {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(LEGACY_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Failed to remove old cache entries:', error);
+  }
+};
+
+/**
+ * Replies to the editor's own AI operations, stored in IndexedDB under a
+ * SHA-256 of the request. Cache failures are logged and treated as misses, so
+ * a broken cache never stops an operation.
+ */
+class ResponseCacheService {
+  private bypassed = localStorage.getItem(BYPASS_KEY) === 'true';
+
+  constructor() {
+    removeLegacyEntries();
+  }
+
+  // While bypassed every request goes to the model; fresh replies are still stored
+  isBypassed(): boolean {
+    return this.bypassed;
+  }
+
+  setBypassed(bypassed: boolean) {
+    this.bypassed = bypassed;
+    localStorage.setItem(BYPASS_KEY, String(bypassed));
+  }
+
+  // Null where Web Crypto is unavailable, such as a page served over plain HTTP, which turns caching off
+  async createKey(request: CacheRequest): Promise<string | null> {
+    if (!globalThis.crypto?.subtle) {
+      return null;
+    }
+    const { operation, provider, endpoint, model, settings, input } = request;
+    const canonical = JSON.stringify([
+      operation,
+      provider,
+      endpoint,
+      model,
+      settings.systemPrompt,
+      settings.temperature,
+      settings.maxTokens,
+      input
+    ]);
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)));
+  }
+
+  async get(key: string | null): Promise<unknown | null> {
+    if (!key || this.bypassed) {
+      return null;
+    }
+    try {
+      const entry = await withStore<CachedResponse | undefined>(RESPONSE_CACHE_STORE, 'readonly', store => store.get(key));
+      if (!entry) {
+        return null;
+      }
+      await withStore(RESPONSE_CACHE_STORE, 'readwrite', store =>
+        store.put({ ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 })
+      );
+      return entry.data;
+    } catch (error) {
+      console.warn('Cache read error:', error);
+      return null;
+    }
+  }
+
+  async set(key: string | null, request: CacheRequest, data: unknown): Promise<void> {
+    if (!key) {
+      return;
+    }
+    try {
+      const preview = (request.preview ?? request.input).slice(0, PREVIEW_LENGTH);
+      const now = Date.now();
+      const entry: CachedResponse = {
+        key,
+        operation: request.operation,
+        model: request.model,
+        preview,
+        data,
+        size: new TextEncoder().encode(JSON.stringify(data) + preview).length,
+        createdAt: now,
+        lastUsedAt: now,
+        hits: 0
+      };
+      await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.put(entry));
+      await this.evict();
+    } catch (error) {
+      console.warn('Cache write error:', error);
+    }
+  }
+
+  // Most recently used first
+  async list(): Promise<CachedResponse[]> {
+    const entries = await withStore<CachedResponse[]>(RESPONSE_CACHE_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  async remove(key: string): Promise<void> {
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.clear());
+  }
+
+  // Drops the least recently used entries until the total fits under MAX_CACHE_BYTES
+  private async evict(): Promise<void> {
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (let i = entries.length - 1; i >= 0 && total > MAX_CACHE_BYTES; i--) {
+      total -= entries[i].size;
+      evicted.push(entries[i].key);
+    }
+    await Promise.all(evicted.map(key => this.remove(key)));
+  }
+}
+
+export const responseCache = new ResponseCacheService();
@@ -0,0 +1,238 @@
+import { PromptSegment } from '../components/PromptSegment';
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Block {
+  kind: 'heading' | 'tag' | 'rule' | 'list' | 'paragraph';
+  title?: string;
+  // Number of #s for a heading
+  level?: number;
+  first: number;
+  last: number;
+}
+
+interface Draft {
+  title: string | null;
+  first: number;
+  last: number;
+  // Heading level the draft was opened by, if any
+  level?: number;
+  // Index of the draft for the enclosing heading
+  parent?: number;
+}
+
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const OPEN_TAG_PATTERN = /^\s*<([A-Za-z][\w.-]*)(?:\s[^>]*)?>/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^\s*\d+[.)]\s+\S/;
+// Plain paragraphs are grouped until a cluster reaches roughly this size
+const MAX_CLUSTER_CHARS = 1200;
+const TITLE_WORDS = 6;
+
+const splitLines = (text: string): Line[] => {
+  const lines: Line[] = [];
+  let start = 0;
+  text.split('\n').forEach(line => {
+    lines.push({ text: line, start, end: start + line.length });
+    start += line.length + 1;
+  });
+  return lines;
+};
+
+const isBlank = (line: Line) => line.text.trim().length === 0;
+
+// "output_format" / "outputFormat" -> "Output Format"
+const humanizeTag = (tag: string) =>
+  tag
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[\s_.-]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+
+const titleFromText = (text: string) => {
+  const firstLine = text.trim().split('\n')[0].replace(/^\s*\d+[.)]\s+/, '');
+  if (firstLine.endsWith(':') && firstLine.length <= 80) {
+    return firstLine.slice(0, -1).trim();
+  }
+  const words = firstLine.split(/\s+/).filter(Boolean);
+  return words.slice(0, TITLE_WORDS).join(' ') + (words.length > TITLE_WORDS ? '…' : '');
+};
+
+const readBlocks = (lines: Line[]): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ kind: 'heading', title: heading[2], level: heading[1].length, first: i, last: i });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line.text)) {
+      blocks.push({ kind: 'rule', first: i, last: i });
+      i++;
+      continue;
+    }
+
+    // A top-level <tag> runs to its matching closing tag, whatever it contains
+    const tag = line.text.match(OPEN_TAG_PATTERN);
+    if (tag) {
+      const closing = `</${tag[1]}>`;
+      let close = -1;
+      for (let j = i; j < lines.length; j++) {
+        const searchFrom = j === i ? line.text.indexOf('>') + 1 : 0;
+        if (lines[j].text.indexOf(closing, searchFrom) !== -1) {
+          close = j;
+          break;
+        }
+      }
+      if (close !== -1) {
+        blocks.push({ kind: 'tag', title: humanizeTag(tag[1]), first: i, last: close });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    // Numbered list items and their indented continuation lines stay together
+    if (LIST_ITEM_PATTERN.test(line.text)) {
+      let last = i;
+      let j = i + 1;
+      while (j < lines.length) {
+        if (LIST_ITEM_PATTERN.test(lines[j].text) || (!isBlank(lines[j]) && /^\s/.test(lines[j].text))) {
+          last = j;
+          j++;
+        } else if (isBlank(lines[j]) && j + 1 < lines.length && LIST_ITEM_PATTERN.test(lines[j + 1].text)) {
+          j++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ kind: 'list', first: i, last });
+      i = last + 1;
+      continue;
+    }
+
+    let last = i;
+    while (
+      last + 1 < lines.length &&
+      !isBlank(lines[last + 1]) &&
+      !HEADING_PATTERN.test(lines[last + 1].text) &&
+      !RULE_PATTERN.test(lines[last + 1].text) &&
+      !LIST_ITEM_PATTERN.test(lines[last + 1].text) &&
+      !OPEN_TAG_PATTERN.test(lines[last + 1].text)
+    ) {
+      last++;
+    }
+    blocks.push({ kind: 'paragraph', first: i, last });
+    i = last + 1;
+  }
+
+  return blocks;
+};
+
+/**
+ * Splits a prompt into segments from its visible structure alone: Markdown
+ * headings, XML-style tags like <instructions>, horizontal rules, numbered
+ * lists and blank-line paragraph clusters. Runs locally with no API call, and
+ * every segment's content is an exact slice of the original prompt. Sections
+ * nest under the nearest shallower heading above them.
+ */
+export const segmentStructurally = (prompt: string): PromptSegment[] => {
+  const lines = splitLines(prompt);
+  const blocks = readBlocks(lines);
+  const drafts: Draft[] = [];
+  let current: Draft | null = null;
+  // True while the current draft was opened by a heading and should absorb what follows
+  let underHeading = false;
+
+  const close = () => {
+    if (current) {
+      drafts.push(current);
+    }
+    current = null;
+    underHeading = false;
+  };
+
+  const size = (draft: Draft) => lines[draft.last].end - lines[draft.first].start;
+
+  blocks.forEach(block => {
+    switch (block.kind) {
+      case 'heading':
+        close();
+        current = { title: block.title ?? null, first: block.first, last: block.last, level: block.level };
+        underHeading = true;
+        break;
+      case 'tag':
+        // A tag directly under a heading belongs to that heading's section
+        if (current && underHeading && current.last === block.first - 1) {
+          current.last = block.last;
+          close();
+        } else {
+          close();
+          drafts.push({ title: block.title ?? null, first: block.first, last: block.last });
+        }
+        break;
+      case 'rule':
+        // Keep the rule with the section it ends so no text is lost
+        if (current) {
+          current.last = block.last;
+        } else if (drafts.length > 0) {
+          drafts[drafts.length - 1].last = block.last;
+        } else {
+          current = { title: null, first: block.first, last: block.last };
+        }
+        close();
+        break;
+      default:
+        if (current && (underHeading || size(current) < MAX_CLUSTER_CHARS)) {
+          current.last = block.last;
+        } else {
+          close();
+          current = { title: null, first: block.first, last: block.last };
+        }
+    }
+  });
+  close();
+
+  // Headings that are still open, deepest last
+  const open: number[] = [];
+  drafts.forEach((draft, index) => {
+    if (draft.level !== undefined) {
+      while (open.length > 0 && (drafts[open[open.length - 1]].level ?? 0) >= draft.level) {
+        open.pop();
+      }
+    }
+    draft.parent = open[open.length - 1];
+    if (draft.level !== undefined) {
+      open.push(index);
+    }
+  });
+
+  const createdAt = Date.now();
+  return drafts.map((draft, index): PromptSegment => {
+    const content = prompt.slice(lines[draft.first].start, lines[draft.last].end).trim();
+    return {
+      id: `segment-${createdAt}-${index}`,
+      title: draft.title || titleFromText(content) || `Segment ${index + 1}`,
+      content,
+      isIncluded: true,
+      order: index,
+      isEditing: false,
+      isExpanded: false,
+      ...(draft.parent !== undefined && { parentId: `segment-${createdAt}-${draft.parent}` })
+    };
+  });
+};
@@ -0,0 +1,122 @@
+import { Tiktoken, getEncodingNameForModel, type TiktokenModel } from 'js-tiktoken/lite';
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+
+// Rough average for English prose, used until the encoder has loaded
+const CHARS_PER_TOKEN = 4;
+const MAX_CACHED_COUNTS = 500;
+// Longer texts, such as a whole prompt, are cached under a hash rather than a copy of themselves
+const MAX_KEY_CHARS = 2000;
+
+// 53-bit string hash (cyrb53); with the length alongside, collisions are not a practical concern
+const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const loadRanks = async (encoding: EncodingName) => {
+  // Each rank file is a couple of megabytes, so only fetch the one in use
+  const module = encoding === 'o200k_base'
+    ? await import('js-tiktoken/ranks/o200k_base')
+    : await import('js-tiktoken/ranks/cl100k_base');
+  return module.default;
+};
+
+export class TokenizerService {
+  private encoders = new Map<EncodingName, Tiktoken>();
+  private pending = new Map<EncodingName, Promise<void>>();
+  private counts = new Map<string, number>();
+
+  /**
+   * Picks the encoding for a model. Non-OpenAI models (Claude, Llama, ...) use
+   * their own tokenizers, so their counts are an approximation via cl100k_base.
+   */
+  getEncodingName(model: string): EncodingName {
+    try {
+      const name = getEncodingNameForModel(model as TiktokenModel);
+      if (name === 'o200k_base' || name === 'cl100k_base') {
+        return name;
+      }
+    } catch {
+      // Unknown to js-tiktoken, fall through to the prefix rules
+    }
+    return /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|o\d)/.test(model) ? 'o200k_base' : 'cl100k_base';
+  }
+
+  isExact(model: string): boolean {
+    return /^(gpt-|chatgpt|o\d)/.test(model) && this.encoders.has(this.getEncodingName(model));
+  }
+
+  isLoaded(model: string): boolean {
+    return this.encoders.has(this.getEncodingName(model));
+  }
+
+  load(model: string): Promise<void> {
+    const encoding = this.getEncodingName(model);
+    if (this.encoders.has(encoding)) {
+      return Promise.resolve();
+    }
+
+    let pending = this.pending.get(encoding);
+    if (!pending) {
+      pending = loadRanks(encoding)
+        .then(ranks => {
+          this.encoders.set(encoding, new Tiktoken(ranks));
+        })
+        .catch(error => {
+          console.warn('Tokenizer load error:', error);
+        })
+        .finally(() => {
+          this.pending.delete(encoding);
+        });
+      this.pending.set(encoding, pending);
+    }
+    return pending;
+  }
+
+  countTokens(text: string, model: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    const encoding = this.getEncodingName(model);
+    const encoder = this.encoders.get(encoding);
+    if (!encoder) {
+      return Math.ceil(text.length / CHARS_PER_TOKEN);
+    }
+
+    // Segment contents are recounted on every render, so memoize by text, least recently used out first
+    const key = text.length > MAX_KEY_CHARS
+      ? `${encoding}#${text.length}:${hashText(text)}`
+      : `${encoding}:${text}`;
+    const cached = this.counts.get(key);
+    if (cached !== undefined) {
+      this.counts.delete(key);
+      this.counts.set(key, cached);
+      return cached;
+    }
+
+    const count = encoder.encode(text, 'all').length;
+    if (this.counts.size >= MAX_CACHED_COUNTS) {
+      const oldest = this.counts.keys().next().value;
+      if (oldest !== undefined) {
+        this.counts.delete(oldest);
+      }
+    }
+    this.counts.set(key, count);
+    return count;
+  }
+}
+
+export const tokenizerService = new TokenizerService();
+
+export const formatTokenCount = (count: number, isExact: boolean): string =>
+  `${isExact ? '' : '~'}${count.toLocaleString()} tokens`;
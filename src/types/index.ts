@@ -1,20 +1,283 @@
 import { PromptSegment } from '../components/PromptSegment';
+import type { FidelityReport } from '../utils/fidelity';
+import type { HistoryState } from '../utils/history';
+
+export interface SegmentationStatus {
+  receivedChars: number;
+  expectedChars: number;
+  segmentCount: number;
+}
 
 export interface AppState {
   originalPrompt: string;
   segments: PromptSegment[];
   finalOutput: string;
-  isLoading: boolean;
-  error: string | null;
+  // Messages not tied to one AI operation, such as segmentation warnings and failed imports
+  error: ErrorNotice | null;
+  // Segmentation and analysis while they run, or after they fail
+  operations: Partial<Record<PromptOperation, AIOperation>>;
+  // Rewrites while they run, or after they fail, keyed by segment id
+  segmentOperations: Record<string, AIOperation>;
+  // The latest batch run over selected segments, until dismissed
+  batch: BatchRun | null;
+  // Set while a streamed segmentation is in flight
+  segmentation: SegmentationStatus | null;
+  // Comparison of the segments against the original prompt, taken after segmentation
+  fidelity: FidelityReport | null;
+  // Undo/redo stacks for every change to the prompt and its segments
+  history: HistoryState;
+  // AI rewrites waiting for review, keyed by segment id
+  rewrites: Record<string, RewriteProposal>;
+  // Findings from the last whole-prompt analysis
+  analysis: PromptAnalysis | null;
+  variables: TemplateVariable[];
+  variants: PromptVariant[];
+  evalCases: EvalCase[];
+  assembly: AssemblyOptions;
+  // Earlier contents of each segment, keyed by segment id; kept outside undo history
+  revisions: RevisionLog;
+  snapshots: PromptSnapshot[];
+}
+
+// One saved version of a segment's content and the change that produced it
+export interface SegmentRevision {
+  id: string;
+  timestamp: number;
+  author: 'manual' | 'ai';
+  // What produced this content, such as `Make "Role" concise`
+  label: string;
+  content: string;
+}
+
+export type RevisionLog = Record<string, SegmentRevision[]>;
+
+// The assembled output at a point in time, kept to compare against later versions
+export interface PromptSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  output: string;
+}
+
+export type AssemblyFormat = 'plain' | 'markdown' | 'xml' | 'custom';
+
+// How the included segments are joined into the final output
+export interface AssemblyOptions {
+  format: AssemblyFormat;
+  // Used by the custom format: the text between segments, and each segment's
+  // text with {title} and {content} filled in; \n stands for a line break
+  separator: string;
+  template: string;
+}
+
+export type VariableType = 'text' | 'multiline' | 'number' | 'boolean' | 'json';
+
+// A {{name}} placeholder with the value substituted into the rendered output
+export interface TemplateVariable {
+  name: string;
+  type: VariableType;
+  defaultValue: string;
+  description?: string;
+}
+
+// A named selection of segments, in output order, to compare against other selections
+export interface PromptVariant {
+  id: string;
+  name: string;
+  // Included segment ids in output order; all other segments are excluded
+  segmentIds: string[];
+  createdAt: number;
+}
+
+export type AssertionType = 'contains' | 'not-contains' | 'regex' | 'json-schema' | 'max-length' | 'rubric';
+
+// One check on a model reply; `value` is the text, pattern, schema, character limit or rubric
+export interface EvalAssertion {
+  id: string;
+  type: AssertionType;
+  value: string;
+}
+
+// A test input sent under the assembled prompt, with the checks its reply must pass
+export interface EvalCase {
+  id: string;
+  name: string;
+  input: string;
+  assertions: EvalAssertion[];
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  originalPrompt: string;
+  segments: PromptSegment[];
+  history: HistoryState;
+  variables: TemplateVariable[];
+  variants: PromptVariant[];
+  evalCases: EvalCase[];
+  assembly: AssemblyOptions;
+  revisions: RevisionLog;
+  snapshots: PromptSnapshot[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the project list needs, without segments and history
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  originalPrompt: string;
+  segmentCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// AI rewrites of a single segment; 'translate' and 'edit' take an instruction
+export type RewriteOperation = 'concise' | 'clarify' | 'imperative' | 'examples' | 'translate' | 'bullets' | 'edit';
+
+// Retitling asks for a new title instead of rewriting the content
+export type BatchAction = RewriteOperation | 'retitle';
+
+// One AI action run over several selected segments, applied together as one undoable step
+export interface BatchRun {
+  id: string;
+  action: BatchAction;
+  instruction?: string;
+  // Also the label of its undo history entry
+  label: string;
+  segmentIds: string[];
+  completed: number;
+  failed: number;
+  status: 'running' | 'done' | 'cancelled';
+  // Content, or titles when retitling, of the segments before the run and after it was applied
+  before: Record<string, string>;
+  after: Record<string, string>;
+  // The history entry the results were applied as; undoing the batch is offered while it is the latest step
+  historyId: string | null;
+}
+
+export interface RewriteOptions {
+  instruction?: string;
+  // Skip the cache and ask for a fresh rewrite
+  regenerate?: boolean;
+}
+
+export interface RewriteProposal {
+  operation: RewriteOperation;
+  // Target language or free-form instruction, kept so the rewrite can be regenerated
+  instruction?: string;
+  // Segment content the rewrite was made from
+  original: string;
+  proposed: string;
 }
 
+export type AnalysisFindingKind = 'contradiction' | 'redundancy' | 'ambiguity' | 'missing';
+
+// A problem found by reading all included segments together, pinned to the segments it concerns
+export interface AnalysisFinding {
+  id: string;
+  kind: AnalysisFindingKind;
+  // Empty for a missing section that no existing segment covers
+  segmentIds: string[];
+  summary: string;
+  // The wording the finding is about, quoted from the segments
+  quote?: string;
+  // How to resolve it; used as the instruction for the quick fix
+  suggestion: string;
+  // A section to add, proposed for missing-section findings
+  section?: { title: string; content: string };
+}
+
+export interface PromptAnalysis {
+  findings: AnalysisFinding[];
+  // Segment contents as analyzed, to tell when a finding may be out of date
+  analyzedContent: Record<string, string>;
+  analyzedAt: number;
+}
+
+// 'structural' splits on headings, tags and paragraphs locally; 'ai' asks the model
+export type SegmentationMode = 'structural' | 'ai';
+
+export type ProviderId = 'openai' | 'anthropic' | 'azure' | 'ollama' | 'mock';
+
 export interface OpenAIConfig {
+  provider: ProviderId;
   apiKey: string;
-  model: 'gpt-4o-mini' | 'gpt-3.5-turbo';
+  model: string;
+  // Overrides the provider's default endpoint (required for Azure)
+  baseUrl?: string;
+  // Azure OpenAI only
+  apiVersion?: string;
 }
 
+// Every AI operation the editor itself runs, each with its own settings
+export type AIOperationId = 'break' | RewriteOperation | 'retitle' | 'analyze' | 'judge';
+
+export interface OperationSettings {
+  systemPrompt: string;
+  temperature: number;
+  // null leaves the output limit to the provider
+  maxTokens: number | null;
+}
+
+export type AISettingsOverrides = Partial<Record<AIOperationId, Partial<OperationSettings>>>;
+
+export interface AISettingsPreset {
+  id: string;
+  name: string;
+  overrides: AISettingsOverrides;
+  createdAt: number;
+}
+
+// A stored AI reply; `key` is the SHA-256 of everything that went into the request
+export interface CachedResponse {
+  key: string;
+  operation: string;
+  model: string;
+  // The start of the input, to recognize the entry in the cache manager
+  preview: string;
+  data: unknown;
+  // Approximate stored size in bytes
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+// Applied to every request the editor sends to the model
+export interface RequestSettings {
+  // Requests in flight at once; the rest wait their turn
+  concurrency: number;
+  // Further attempts after a rate limit, timeout or transient failure
+  maxRetries: number;
+  // Per attempt, or between chunks of a streamed reply; 0 waits indefinitely
+  timeoutSeconds: number;
+}
+
+export type AIErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'content_filter'
+  | 'truncated'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'invalid_request'
+  | 'unknown';
+
+// A message for the error banner; failed AI requests also say what kind of failure it was and what to do about it
+export interface ErrorNotice {
+  message: string;
+  kind?: AIErrorKind;
+  remediation?: string;
+}
+
+export type PromptOperation = 'break' | 'analyze';
+
+// An AI request being waited on, or the error it ended with; removed once it succeeds or the error is dismissed
 export interface AIOperation {
-  type: 'break' | 'concise' | 'edit';
+  type: PromptOperation | BatchAction;
   isLoading: boolean;
-  error: string | null;
-}
\ No newline at end of file
+  error: ErrorNotice | null;
+}
@@ -0,0 +1,102 @@
+import type { PromptSegment } from '../components/PromptSegment';
+import type { AnalysisFinding, AnalysisFindingKind, PromptAnalysis } from '../types';
+import { extractJson } from './evaluation';
+
+export const FINDING_KIND_LABELS: Record<AnalysisFindingKind, string> = {
+  contradiction: 'Contradiction',
+  redundancy: 'Redundancy',
+  ambiguity: 'Ambiguity',
+  missing: 'Missing section'
+};
+
+const FINDING_KINDS = Object.keys(FINDING_KIND_LABELS) as AnalysisFindingKind[];
+
+// Sections are numbered from 1 so the model can refer to them without seeing ids
+export const buildAnalysisInput = (segments: PromptSegment[]) =>
+  segments
+    .map((segment, index) => `[Section ${index + 1}] ${segment.title}\n${segment.content}`)
+    .join('\n\n');
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Reads the findings from the model's reply, mapping section numbers back to
+ * the segments they were built from. Entries with an unknown type or no
+ * summary are dropped rather than failing the whole analysis.
+ */
+export const parseFindings = (reply: string, segments: PromptSegment[]): AnalysisFinding[] => {
+  const parsed = extractJson(reply);
+  const raw = Array.isArray(parsed) ? parsed : (parsed as { findings?: unknown })?.findings;
+  if (!Array.isArray(raw)) {
+    throw new Error('The analysis did not contain a findings list');
+  }
+
+  return raw.flatMap((entry: Record<string, unknown>, index): AnalysisFinding[] => {
+    const kind = asText(entry?.type) as AnalysisFindingKind;
+    const summary = asText(entry?.summary);
+    if (!FINDING_KINDS.includes(kind) || !summary) {
+      return [];
+    }
+    const numbers = Array.isArray(entry.sections) ? entry.sections : [];
+    const segmentIds = [...new Set(numbers
+      .map(number => segments[Number(number) - 1]?.id)
+      .filter((id): id is string => Boolean(id)))];
+    const section = entry.section as Record<string, unknown> | undefined;
+    const title = asText(section?.title);
+    const content = asText(section?.content);
+
+    return [{
+      id: `finding-${Date.now()}-${index}`,
+      kind,
+      segmentIds,
+      summary,
+      quote: asText(entry.quote) || undefined,
+      suggestion: asText(entry.suggestion) || summary,
+      section: kind === 'missing' && title && content ? { title, content } : undefined
+    }];
+  });
+};
+
+export const createAnalysis = (findings: AnalysisFinding[], segments: PromptSegment[]): PromptAnalysis => ({
+  findings,
+  analyzedContent: Object.fromEntries(segments.map(s => [s.id, s.content])),
+  analyzedAt: Date.now()
+});
+
+// A finding may no longer apply once a segment it refers to is edited or deleted
+export const isFindingStale = (finding: AnalysisFinding, analysis: PromptAnalysis, segments: PromptSegment[]) =>
+  finding.segmentIds.some(id => {
+    const segment = segments.find(s => s.id === id);
+    return !segment || segment.content !== analysis.analyzedContent[id];
+  });
+
+// Instruction for the quick fix, which runs the suggestion as an instructed edit of one of the segments
+export const fixInstruction = (finding: AnalysisFinding, otherTitles: string[]) => [
+  finding.suggestion,
+  `Problem: ${finding.summary}`,
+  ...(otherTitles.length > 0
+    ? [`Also involved: ${otherTitles.map(title => `"${title}"`).join(', ')}. Only change this text.`]
+    : [])
+].join('\n');
+
+// A finding as shown on one of the segments it refers to
+export interface PinnedFinding {
+  finding: AnalysisFinding;
+  isStale: boolean;
+  // Titles of the other segments the finding involves
+  otherTitles: string[];
+}
+
+export const pinFindings = (analysis: PromptAnalysis, segments: PromptSegment[]): Record<string, PinnedFinding[]> => {
+  const pinned: Record<string, PinnedFinding[]> = {};
+  analysis.findings.forEach(finding => {
+    const isStale = isFindingStale(finding, analysis, segments);
+    finding.segmentIds.forEach(id => {
+      const otherTitles = finding.segmentIds
+        .filter(other => other !== id)
+        .map(other => segments.find(s => s.id === other)?.title ?? 'a deleted segment');
+      pinned[id] = [...(pinned[id] ?? []), { finding, isStale, otherTitles }];
+    });
+  });
+  return pinned;
+};
@@ -0,0 +1,104 @@
+import type { PromptSegment } from '../components/PromptSegment';
+import type { AssemblyFormat, AssemblyOptions } from '../types';
+
+export const ASSEMBLY_FORMAT_LABELS: Record<AssemblyFormat, string> = {
+  plain: 'Plain',
+  markdown: 'Markdown headings',
+  xml: 'XML sections',
+  custom: 'Custom'
+};
+
+export const ASSEMBLY_FORMATS = Object.keys(ASSEMBLY_FORMAT_LABELS) as AssemblyFormat[];
+
+export const DEFAULT_ASSEMBLY: AssemblyOptions = {
+  format: 'plain',
+  separator: '\\n\\n',
+  template: '{content}'
+};
+
+// Projects saved before assembly options existed, or with a damaged value, get the plain join
+export const normalizeAssembly = (value: Partial<AssemblyOptions> | undefined): AssemblyOptions => ({
+  format: value?.format && ASSEMBLY_FORMATS.includes(value.format) ? value.format : DEFAULT_ASSEMBLY.format,
+  separator: typeof value?.separator === 'string' ? value.separator : DEFAULT_ASSEMBLY.separator,
+  template: typeof value?.template === 'string' ? value.template : DEFAULT_ASSEMBLY.template
+});
+
+// Custom separators and templates are typed on one line, so \n and \t are written as escapes
+const unescape = (text: string) => text.replace(/\\([nt\\])/g, (_, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : '\\'));
+
+const escapeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Nesting level of each included segment, counting only included ancestors,
+ * so a subsection of an excluded group is assembled one level up.
+ */
+const includedDepths = (included: PromptSegment[], segments: PromptSegment[]): Map<string, number> => {
+  const byId = new Map(segments.map(s => [s.id, s]));
+  return new Map(included.map(segment => {
+    let depth = 0;
+    const seen = new Set([segment.id]);
+    for (let parent = byId.get(segment.parentId ?? ''); parent && !seen.has(parent.id); parent = byId.get(parent.parentId ?? '')) {
+      seen.add(parent.id);
+      depth += parent.isIncluded ? 1 : 0;
+    }
+    return [segment.id, depth];
+  }));
+};
+
+// Structural segments keep their source heading as the first line; it is reused at the level of the
+// segment's depth rather than repeated under a generated one
+const SOURCE_HEADING = /^\s*#{1,6}[ \t]+(.*?)[ \t#]*(?:\n|$)/;
+
+const markdownSection = (segment: PromptSegment, depth: number): string => {
+  const heading = `${'#'.repeat(Math.min(6, depth + 1))} ${segment.title}`;
+  const match = segment.content.match(SOURCE_HEADING);
+  if (match && match[1].trim().toLowerCase() === segment.title.trim().toLowerCase()) {
+    const body = segment.content.slice(match[0].length);
+    return body ? `${heading}\n${body}` : heading;
+  }
+  return `${heading}\n\n${segment.content}`;
+};
+
+// Sections nest like the segments: a group's section closes after its last included subsection
+const assembleXml = (included: PromptSegment[], depths: Map<string, number>): string => {
+  const lines: string[] = [];
+  const open: number[] = [];
+  included.forEach(segment => {
+    const depth = depths.get(segment.id) ?? 0;
+    while (open.length > 0 && open[open.length - 1] >= depth) {
+      open.pop();
+      lines.push('</section>');
+    }
+    lines.push(`<section name="${escapeAttribute(segment.title)}">`, segment.content);
+    open.push(depth);
+  });
+  open.forEach(() => lines.push('</section>'));
+  return lines.join('\n');
+};
+
+// Included segments in output order, which is depth-first for nested segments, joined in the chosen format
+export const assembleSegments = (segments: PromptSegment[], options: AssemblyOptions = DEFAULT_ASSEMBLY): string => {
+  const included = segments
+    .filter(s => s.isIncluded)
+    .sort((a, b) => a.order - b.order);
+  const depths = includedDepths(included, segments);
+
+  switch (options.format) {
+    case 'markdown':
+      return included
+        .map(s => markdownSection(s, depths.get(s.id) ?? 0))
+        .join('\n\n');
+    case 'xml':
+      return assembleXml(included, depths);
+    case 'custom': {
+      const template = unescape(options.template);
+      // One pass, so a segment containing "{title}" is left as it is
+      return included
+        .map(s => template.replace(/\{(title|content)\}/g, (_, field: string) => (field === 'title' ? s.title : s.content)))
+        .join(unescape(options.separator));
+    }
+    default:
+      return included.map(s => s.content).join('\n\n');
+  }
+};
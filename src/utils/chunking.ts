@@ -0,0 +1,218 @@
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+interface Block extends TextSpan {
+  tokens: number;
+  isHeading: boolean;
+}
+
+export interface LocatedSegment {
+  title: string;
+  content: string;
+  // Position of the content in the original text, null if it could not be found verbatim
+  span: TextSpan | null;
+}
+
+export interface ReconstructionReport {
+  ok: boolean;
+  // Non-whitespace regions of the original that no segment covers
+  uncovered: TextSpan[];
+  // Segments whose content does not appear in the original
+  unlocatedCount: number;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s/;
+// Prefer to end a window before a heading once it is this full
+const HEADING_BREAK_RATIO = 0.6;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text into paragraph blocks on blank lines and before Markdown headings.
+ * Each block keeps its trailing whitespace so the blocks concatenate back to the input.
+ */
+const splitIntoBlocks = (text: string, countTokens: (text: string) => number): Block[] => {
+  const boundaries = [0];
+  const pattern = /\n[ \t]*\n\s*|\n(?=#{1,6}\s)/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const boundary = match.index + match[0].length;
+    if (boundary < text.length) {
+      boundaries.push(boundary);
+    }
+  }
+  boundaries.push(text.length);
+
+  const blocks: Block[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    if (end > start) {
+      const slice = text.slice(start, end);
+      blocks.push({ start, end, tokens: countTokens(slice), isHeading: HEADING_PATTERN.test(slice) });
+    }
+  }
+  return blocks;
+};
+
+// Breaks a block that alone exceeds the window on line boundaries, then by length
+const splitOversizedBlock = (
+  text: string,
+  block: Block,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): Block[] => {
+  const pieces: Block[] = [];
+  let start = block.start;
+  while (start < block.end) {
+    let end = block.end;
+    let tokens = countTokens(text.slice(start, end));
+    while (tokens > maxTokens && end - start > 1) {
+      const lineBreak = text.lastIndexOf('\n', start + Math.floor((end - start) / 2));
+      end = lineBreak > start && lineBreak + 1 < end ? lineBreak + 1 : start + Math.floor((end - start) / 2);
+      tokens = countTokens(text.slice(start, end));
+    }
+    pieces.push({ start, end, tokens, isHeading: start === block.start && block.isHeading });
+    start = end;
+  }
+  return pieces;
+};
+
+/**
+ * Plans overlapping windows of at most maxTokens over the text, cut on block
+ * boundaries. Each window repeats up to overlapTokens from the end of the
+ * previous one so a section cut at the boundary is seen whole at least once.
+ */
+export const planWindows = (
+  text: string,
+  countTokens: (text: string) => number,
+  maxTokens: number,
+  overlapTokens: number
+): TextSpan[] => {
+  const blocks = splitIntoBlocks(text, countTokens)
+    .flatMap(block => block.tokens > maxTokens
+      ? splitOversizedBlock(text, block, maxTokens, countTokens)
+      : [block]);
+  if (blocks.length === 0) {
+    return [];
+  }
+
+  const windows: TextSpan[] = [];
+  let next = 0;
+  let overlapFrom = 0;
+
+  while (next < blocks.length) {
+    let tokens = 0;
+    for (let i = overlapFrom; i < next; i++) {
+      tokens += blocks[i].tokens;
+    }
+
+    let end = next;
+    while (end < blocks.length) {
+      const block = blocks[end];
+      if (end > next) {
+        if (tokens + block.tokens > maxTokens) break;
+        if (block.isHeading && tokens > maxTokens * HEADING_BREAK_RATIO) break;
+      }
+      tokens += block.tokens;
+      end++;
+    }
+
+    windows.push({ start: blocks[overlapFrom].start, end: blocks[end - 1].end });
+
+    // Carry the tail of this window into the next one, never reaching back past its own new blocks
+    let carried = 0;
+    overlapFrom = end;
+    while (overlapFrom - 1 > next && carried + blocks[overlapFrom - 1].tokens <= overlapTokens) {
+      overlapFrom--;
+      carried += blocks[overlapFrom].tokens;
+    }
+    next = end;
+  }
+
+  return windows;
+};
+
+/**
+ * Finds where a segment's content sits in the original text, searching forward
+ * from `from`. Falls back to a whitespace-insensitive match since models often
+ * reflow line breaks.
+ */
+export const locateSpan = (text: string, content: string, from = 0): TextSpan | null => {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const exact = text.indexOf(trimmed, from);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  const pattern = new RegExp(trimmed.split(/\s+/).map(escapeRegExp).join('\\s+'), 'g');
+  pattern.lastIndex = from;
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * Folds one window's segments into the segments merged so far. Segments lying
+ * entirely in the overlap are dropped as duplicates; a segment that straddles
+ * the end of the previous one is combined with it, taking the text verbatim
+ * from the original so the overlap is not repeated.
+ */
+export const mergeWindowSegments = (
+  text: string,
+  merged: LocatedSegment[],
+  incoming: LocatedSegment[]
+): LocatedSegment[] => {
+  const result = [...merged];
+
+  incoming.forEach(segment => {
+    let lastIndex = result.length - 1;
+    while (lastIndex >= 0 && !result[lastIndex].span) {
+      lastIndex--;
+    }
+    const last = lastIndex >= 0 ? result[lastIndex] : null;
+
+    if (!segment.span || !last?.span) {
+      result.push(segment);
+    } else if (segment.span.end <= last.span.end) {
+      // Already covered by the previous window
+    } else if (segment.span.start < last.span.end) {
+      const span = { start: last.span.start, end: segment.span.end };
+      result[lastIndex] = { title: last.title, content: text.slice(span.start, span.end), span };
+    } else {
+      result.push(segment);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Checks that the segments, in order, account for every non-whitespace
+ * character of the original text.
+ */
+export const checkReconstruction = (text: string, segments: LocatedSegment[]): ReconstructionReport => {
+  const spans = segments
+    .map(segment => segment.span)
+    .filter((span): span is TextSpan => span !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const uncovered: TextSpan[] = [];
+  let cursor = 0;
+  spans.forEach(span => {
+    if (span.start > cursor && text.slice(cursor, span.start).trim()) {
+      uncovered.push({ start: cursor, end: span.start });
+    }
+    cursor = Math.max(cursor, span.end);
+  });
+  if (cursor < text.length && text.slice(cursor).trim()) {
+    uncovered.push({ start: cursor, end: text.length });
+  }
+
+  const unlocatedCount = segments.filter(segment => !segment.span).length;
+  return { ok: uncovered.length === 0 && unlocatedCount === 0, uncovered, unlocatedCount };
+};
@@ -0,0 +1,232 @@
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  // Token index ranges; for 'insert' the a-range is empty, for 'delete' the b-range is
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+}
+
+export interface WordToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Past this many edits the remainder is reported as one replacement to bound memory
+const MAX_EDIT_DISTANCE = 4000;
+
+export const tokenizeWords = (text: string): WordToken[] => {
+  const tokens: WordToken[] = [];
+  const pattern = /\S+/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+const pushOp = (ops: DiffOp[], op: DiffOp) => {
+  if (op.aEnd === op.aStart && op.bEnd === op.bStart) {
+    return;
+  }
+  const last = ops[ops.length - 1];
+  if (last && last.type === op.type && last.aEnd === op.aStart && last.bEnd === op.bStart) {
+    last.aEnd = op.aEnd;
+    last.bEnd = op.bEnd;
+  } else {
+    ops.push({ ...op });
+  }
+};
+
+/**
+ * Myers' O(ND) diff over two token sequences, returning runs of equal, deleted
+ * and inserted tokens in order. Common prefixes and suffixes are stripped first,
+ * which keeps the usual mostly-unchanged case cheap.
+ */
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const ops: DiffOp[] = [];
+  pushOp(ops, { type: 'equal', aStart: 0, aEnd: prefix, bStart: 0, bEnd: prefix });
+
+  const middle = diffMiddle(a, b, prefix, n, m);
+  middle.forEach(op => pushOp(ops, op));
+
+  pushOp(ops, {
+    type: 'equal',
+    aStart: a.length - suffix,
+    aEnd: a.length,
+    bStart: b.length - suffix,
+    bEnd: b.length
+  });
+  return ops;
+};
+
+const diffMiddle = (a: string[], b: string[], offset: number, n: number, m: number): DiffOp[] => {
+  const replaceAll = (): DiffOp[] => [
+    { type: 'delete', aStart: offset, aEnd: offset + n, bStart: offset, bEnd: offset },
+    { type: 'insert', aStart: offset + n, aEnd: offset + n, bStart: offset, bEnd: offset + m }
+  ];
+  if (n === 0 || m === 0) {
+    return replaceAll();
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  // trace[d] holds the furthest x on each diagonal k (-d..d) after d edits
+  const trace: Int32Array[] = [];
+  let previous = new Int32Array(3);
+  previous[1] = 0;
+  let found = -1;
+
+  for (let d = 0; d <= max && found === -1; d++) {
+    const current = new Int32Array(2 * d + 3);
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && previousAt(previous, d - 1, k - 1) < previousAt(previous, d - 1, k + 1));
+      let x = down ? previousAt(previous, d - 1, k + 1) : previousAt(previous, d - 1, k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[offset + x] === b[offset + y]) {
+        x++;
+        y++;
+      }
+      current[k + d + 1] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+    trace.push(current);
+    previous = current;
+  }
+
+  if (found === -1) {
+    return replaceAll();
+  }
+
+  // Walk the trace backwards to recover the edit path
+  const reversed: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && previousAt(prev, d - 1, k - 1) < previousAt(prev, d - 1, k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = previousAt(prev, d - 1, prevK);
+    const prevY = prevX - prevK;
+    const startX = down ? prevX : prevX + 1;
+    const startY = down ? prevY + 1 : prevY;
+
+    if (x > startX) {
+      reversed.push({ type: 'equal', aStart: offset + startX, aEnd: offset + x, bStart: offset + startY, bEnd: offset + y });
+    }
+    if (down) {
+      reversed.push({ type: 'insert', aStart: offset + prevX, aEnd: offset + prevX, bStart: offset + prevY, bEnd: offset + prevY + 1 });
+    } else {
+      reversed.push({ type: 'delete', aStart: offset + prevX, aEnd: offset + prevX + 1, bStart: offset + prevY, bEnd: offset + prevY });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  if (x > 0) {
+    reversed.push({ type: 'equal', aStart: offset, aEnd: offset + x, bStart: offset, bEnd: offset + y });
+  }
+
+  const ops: DiffOp[] = [];
+  reversed.reverse().forEach(op => pushOp(ops, op));
+  return ops;
+};
+
+const previousAt = (v: Int32Array, d: number, k: number): number => {
+  const index = k + d + 1;
+  return index >= 0 && index < v.length ? v[index] : 0;
+};
+
+/**
+ * Word-level diff of two texts for display. Whitespace runs are tokens too, so
+ * joining the 'equal' and 'delete' parts gives back `a`, and joining the
+ * 'equal' and 'insert' parts gives back `b`.
+ */
+export const diffText = (a: string, b: string): DiffPart[] => {
+  const split = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+  const aTokens = split(a);
+  const bTokens = split(b);
+
+  const parts: DiffPart[] = [];
+  diffSequences(aTokens, bTokens).forEach(op => {
+    const text = op.type === 'insert'
+      ? bTokens.slice(op.bStart, op.bEnd).join('')
+      : aTokens.slice(op.aStart, op.aEnd).join('');
+    const last = parts[parts.length - 1];
+    if (last && last.type === op.type) {
+      last.text += text;
+    } else if (text) {
+      parts.push({ type: op.type, text });
+    }
+  });
+  return parts;
+};
+
+export type DiffChunk =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; index: number; removed: string; added: string };
+
+/**
+ * Groups a word diff into hunks that can be accepted or rejected one by one.
+ * Changes separated only by whitespace are merged so a reworded phrase is one hunk.
+ */
+export const groupHunks = (parts: DiffPart[]): DiffChunk[] => {
+  const chunks: DiffChunk[] = [];
+  let hunkCount = 0;
+
+  parts.forEach((part, i) => {
+    const last = chunks[chunks.length - 1];
+    const next = parts[i + 1];
+    const bridgesChanges = part.type === 'equal' && !part.text.trim() && last?.type === 'change' && next && next.type !== 'equal';
+
+    if (part.type === 'equal' && !bridgesChanges) {
+      chunks.push({ type: 'equal', text: part.text });
+      return;
+    }
+    if (last?.type !== 'change') {
+      chunks.push({ type: 'change', index: hunkCount++, removed: '', added: '' });
+    }
+    const hunk = chunks[chunks.length - 1] as Extract<DiffChunk, { type: 'change' }>;
+    if (part.type !== 'insert') {
+      hunk.removed += part.text;
+    }
+    if (part.type !== 'delete') {
+      hunk.added += part.text;
+    }
+  });
+
+  return chunks;
+};
+
+// Rebuilds the text taking the new wording for accepted hunks and the old wording for the rest
+export const applyHunks = (chunks: DiffChunk[], accepted: Set<number>): string =>
+  chunks
+    .map(chunk => {
+      if (chunk.type === 'equal') {
+        return chunk.text;
+      }
+      return accepted.has(chunk.index) ? chunk.added : chunk.removed;
+    })
+    .join('');
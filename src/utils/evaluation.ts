@@ -0,0 +1,203 @@
+import type { AssertionType, EvalAssertion, EvalCase } from '../types';
+
+export const ASSERTION_LABELS: Record<AssertionType, string> = {
+  'contains': 'Contains',
+  'not-contains': 'Does not contain',
+  'regex': 'Matches regex',
+  'json-schema': 'Valid JSON for schema',
+  'max-length': 'Max characters',
+  'rubric': 'LLM rubric'
+};
+
+export interface AssertionResult {
+  passed: boolean;
+  // Why it failed, or a short confirmation when it passed
+  detail: string;
+}
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEvalCase = (name: string): EvalCase => ({
+  id: createId('case'),
+  name,
+  input: '',
+  assertions: []
+});
+
+export const createAssertion = (type: AssertionType): EvalAssertion => ({
+  id: createId('assertion'),
+  type,
+  value: type === 'json-schema' ? '{\n  "type": "object"\n}' : ''
+});
+
+type JsonSchema = Record<string, unknown>;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) =>
+  typeOf(value) === type || (type === 'number' && typeOf(value) === 'integer');
+
+/**
+ * Checks a value against the commonly used subset of JSON Schema: type, enum,
+ * const, properties, required, additionalProperties, items, min/max length and
+ * items, minimum/maximum and pattern. Returns every violation with its path.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} should be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} should be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    if (Array.isArray(schema.required)) {
+      schema.required
+        .filter((key: string) => !(key in object))
+        .forEach((key: string) => errors.push(`${path}.${key} is required`));
+    }
+    Object.entries(object).forEach(([key, child]) => {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// Models often wrap JSON in a fenced code block or a sentence; try the whole reply first
+export const extractJson = (reply: string): unknown => {
+  const candidates = [reply.trim()];
+  const fenced = reply.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+  const start = reply.search(/[[{]/);
+  const end = Math.max(reply.lastIndexOf('}'), reply.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    candidates.push(reply.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Reply does not contain valid JSON');
+};
+
+// Parses a /pattern/flags literal, or treats the text as a bare pattern
+const parseRegex = (source: string): RegExp => {
+  const literal = source.match(/^\/(.*)\/([a-z]*)$/s);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+};
+
+/**
+ * Checks a reply against one assertion. Rubric assertions need a model and are
+ * graded by the AI service instead.
+ */
+export const checkAssertion = (assertion: EvalAssertion, reply: string): AssertionResult => {
+  const { value } = assertion;
+  if (!value.trim()) {
+    return { passed: false, detail: 'Set a value to check' };
+  }
+  switch (assertion.type) {
+    case 'contains': {
+      const passed = reply.toLowerCase().includes(value.toLowerCase());
+      return { passed, detail: passed ? `Contains "${value}"` : `Missing "${value}"` };
+    }
+    case 'not-contains': {
+      const passed = !reply.toLowerCase().includes(value.toLowerCase());
+      return { passed, detail: passed ? `Does not contain "${value}"` : `Contains "${value}"` };
+    }
+    case 'regex': {
+      try {
+        const passed = parseRegex(value).test(reply);
+        return { passed, detail: passed ? `Matches ${value}` : `Does not match ${value}` };
+      } catch (error) {
+        return { passed: false, detail: `Invalid regex: ${error instanceof Error ? error.message : value}` };
+      }
+    }
+    case 'json-schema': {
+      let schema: JsonSchema;
+      try {
+        schema = JSON.parse(value);
+      } catch {
+        return { passed: false, detail: 'The schema is not valid JSON' };
+      }
+      try {
+        const errors = validateJsonSchema(extractJson(reply), schema);
+        return errors.length === 0
+          ? { passed: true, detail: 'Valid JSON matching the schema' }
+          : { passed: false, detail: errors.slice(0, 3).join('; ') + (errors.length > 3 ? ` (and ${errors.length - 3} more)` : '') };
+      } catch (error) {
+        return { passed: false, detail: error instanceof Error ? error.message : 'Invalid JSON' };
+      }
+    }
+    case 'max-length': {
+      const limit = Number(value);
+      if (!Number.isFinite(limit)) {
+        return { passed: false, detail: 'The limit is not a number' };
+      }
+      const passed = reply.length <= limit;
+      return { passed, detail: `${reply.length.toLocaleString()} of ${limit.toLocaleString()} characters` };
+    }
+    case 'rubric':
+      throw new Error('Rubric assertions are graded by a model');
+  }
+};
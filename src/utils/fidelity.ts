@@ -0,0 +1,144 @@
+import { PromptSegment } from '../components/PromptSegment';
+import { diffSequences, tokenizeWords, type WordToken } from './diff';
+import type { TextSpan } from './chunking';
+
+export type FidelityIssueKind = 'dropped' | 'paraphrased' | 'duplicated' | 'hallucinated';
+
+export interface FidelityIssue {
+  id: string;
+  kind: FidelityIssueKind;
+  // Where the affected text sits in the original prompt (dropped and paraphrased only)
+  originalSpan: TextSpan | null;
+  originalText: string;
+  // The text as it appears in the segments (empty for dropped)
+  segmentText: string;
+  // Segment the issue occurs in; for dropped text, the segment to attach it to
+  segmentId: string | null;
+  // Dropped text only: where to reinsert it to restore the original wording
+  attach?: {
+    segmentId: string;
+    offset: number;
+    text: string;
+  };
+}
+
+export interface FidelityReport {
+  checkedAt: number;
+  issues: FidelityIssue[];
+  // Share of the original's words that survive unchanged, 0..1
+  coverage: number;
+}
+
+interface SegmentToken extends WordToken {
+  segmentId: string;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Compares the original prompt with the segments joined in order, word by word,
+ * ignoring whitespace. A hunk that only removes words is dropped text, one that
+ * only adds words is duplicated (if the words exist elsewhere in the original)
+ * or hallucinated, and one that does both is paraphrased.
+ */
+export const checkFidelity = (original: string, segments: PromptSegment[]): FidelityReport => {
+  const a = tokenizeWords(original);
+  const b: SegmentToken[] = [...segments]
+    .sort((x, y) => x.order - y.order)
+    .flatMap(segment => tokenizeWords(segment.content).map(token => ({ ...token, segmentId: segment.id })));
+
+  const normalizedOriginal = normalize(original);
+  const issues: FidelityIssue[] = [];
+  let preserved = 0;
+
+  const ops = diffSequences(a.map(t => t.text), b.map(t => t.text));
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].type === 'equal') {
+      preserved += ops[i].aEnd - ops[i].aStart;
+      continue;
+    }
+
+    // Gather the whole run of changes between two equal stretches
+    const first = ops[i];
+    let last = first;
+    while (i + 1 < ops.length && ops[i + 1].type !== 'equal') {
+      last = ops[++i];
+    }
+    const aStart = first.aStart;
+    const aEnd = Math.max(first.aEnd, last.aEnd);
+    const bStart = first.bStart;
+    const bEnd = Math.max(first.bEnd, last.bEnd);
+
+    const originalSpan = aEnd > aStart ? { start: a[aStart].start, end: a[aEnd - 1].end } : null;
+    const originalText = originalSpan ? original.slice(originalSpan.start, originalSpan.end) : '';
+    const segmentText = b.slice(bStart, bEnd).map(t => t.text).join(' ');
+    const id = `fidelity-${issues.length}`;
+
+    if (originalSpan && bEnd > bStart) {
+      issues.push({ id, kind: 'paraphrased', originalSpan, originalText, segmentText, segmentId: b[bStart].segmentId });
+    } else if (originalSpan) {
+      const attach = findAttachPoint(original, a, b, aStart, aEnd, bStart);
+      issues.push({
+        id,
+        kind: 'dropped',
+        originalSpan,
+        originalText,
+        segmentText: '',
+        segmentId: attach?.segmentId ?? null,
+        attach
+      });
+    } else {
+      const kind = normalizedOriginal.includes(normalize(segmentText)) ? 'duplicated' : 'hallucinated';
+      issues.push({ id, kind, originalSpan: null, originalText: '', segmentText, segmentId: b[bStart].segmentId });
+    }
+  }
+
+  return {
+    checkedAt: Date.now(),
+    issues,
+    coverage: a.length === 0 ? 1 : preserved / a.length
+  };
+};
+
+/**
+ * Picks where dropped words go back in: right after the preceding word if it is
+ * in the same segment as the following one, otherwise at the start of the next
+ * segment when the dropped text opens a new paragraph, or the end of the previous one.
+ */
+const findAttachPoint = (
+  original: string,
+  a: WordToken[],
+  b: SegmentToken[],
+  aStart: number,
+  aEnd: number,
+  bIndex: number
+): FidelityIssue['attach'] => {
+  const before = bIndex > 0 ? b[bIndex - 1] : null;
+  const after = bIndex < b.length ? b[bIndex] : null;
+  const gapBefore = aStart > 0 ? original.slice(a[aStart - 1].end, a[aStart].start) : '';
+  const gapAfter = aEnd < a.length ? original.slice(a[aEnd - 1].end, a[aEnd].start) : '';
+  const startsParagraph = /\n\s*\n/.test(gapBefore) && !/\n\s*\n/.test(gapAfter);
+
+  if (after && (!before || (before.segmentId !== after.segmentId && startsParagraph))) {
+    // Dropped words plus the whitespace that separated them from what follows
+    const end = aEnd < a.length ? a[aEnd].start : a[aEnd - 1].end;
+    return { segmentId: after.segmentId, offset: after.start, text: original.slice(a[aStart].start, end) };
+  }
+  if (before) {
+    // Dropped words plus the whitespace that separated them from what precedes
+    const start = aStart > 0 ? a[aStart - 1].end : a[aStart].start;
+    return { segmentId: before.segmentId, offset: before.end, text: original.slice(start, a[aEnd - 1].end) };
+  }
+  return undefined;
+};
+
+/**
+ * Reinserts a dropped span into its segment at the recorded offset.
+ */
+export const attachDroppedSpan = (segment: PromptSegment, issue: FidelityIssue): string => {
+  if (!issue.attach || issue.attach.segmentId !== segment.id) {
+    return segment.content;
+  }
+  const { offset, text } = issue.attach;
+  return segment.content.slice(0, offset) + text + segment.content.slice(offset);
+};
@@ -0,0 +1,220 @@
+import type { PromptSegment } from '../components/PromptSegment';
+
+export type HistoryKind = 'prompt' | 'segment' | 'edit' | 'reorder' | 'include' | 'ai' | 'fidelity';
+
+export interface EditorDocument {
+  originalPrompt: string;
+  segments: PromptSegment[];
+}
+
+// Replaces `length` characters of the prompt from `start` with `text`
+export interface PromptSplice {
+  start: number;
+  length: number;
+  text: string;
+}
+
+// Only the parts that changed; a null segment did not exist on that side
+export interface DocumentPatch {
+  // The whole prompt, as recorded before prompt edits were stored as splices
+  originalPrompt?: string;
+  prompt?: PromptSplice;
+  segments?: Record<string, PromptSegment | null>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  kind: HistoryKind;
+  timestamp: number;
+  before: DocumentPatch;
+  after: DocumentPatch;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Prompt keystrokes closer together than this are undone as one step
+const COALESCE_WINDOW_MS = 1000;
+// Flags that only affect how a segment is shown, not the prompt itself
+const VIEW_KEYS = new Set(['isEditing', 'isExpanded', 'isCollapsed']);
+
+export const emptyHistory = (): HistoryState => ({ past: [], future: [] });
+
+const sameSegment = (a: PromptSegment, b: PromptSegment) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key =>
+    VIEW_KEYS.has(key) || a[key as keyof PromptSegment] === b[key as keyof PromptSegment]
+  );
+};
+
+/**
+ * The changed span between two versions of the prompt, found by trimming the
+ * common start and end. Keystrokes and pastes touch one place, so each entry
+ * holds a few characters rather than two copies of a long prompt.
+ */
+const splicePrompt = (before: string, after: string): { before: PromptSplice; after: PromptSplice } => {
+  const shorter = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < shorter && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < shorter - start && before[before.length - 1 - end] === after[after.length - 1 - end]) {
+    end++;
+  }
+  const removed = before.slice(start, before.length - end);
+  const inserted = after.slice(start, after.length - end);
+  return {
+    before: { start, length: inserted.length, text: removed },
+    after: { start, length: removed.length, text: inserted }
+  };
+};
+
+const applyPrompt = (prompt: string, patch: DocumentPatch): string => {
+  if (patch.prompt) {
+    const { start, length, text } = patch.prompt;
+    return prompt.slice(0, start) + text + prompt.slice(start + length);
+  }
+  return patch.originalPrompt ?? prompt;
+};
+
+const diffDocuments = (before: EditorDocument, after: EditorDocument): { before: DocumentPatch; after: DocumentPatch } | null => {
+  const patchBefore: DocumentPatch = {};
+  const patchAfter: DocumentPatch = {};
+
+  if (before.originalPrompt !== after.originalPrompt) {
+    const splice = splicePrompt(before.originalPrompt, after.originalPrompt);
+    patchBefore.prompt = splice.before;
+    patchAfter.prompt = splice.after;
+  }
+
+  const beforeById = new Map(before.segments.map(segment => [segment.id, segment]));
+  const afterById = new Map(after.segments.map(segment => [segment.id, segment]));
+  const segmentsBefore: Record<string, PromptSegment | null> = {};
+  const segmentsAfter: Record<string, PromptSegment | null> = {};
+  let changed = false;
+
+  new Set([...beforeById.keys(), ...afterById.keys()]).forEach(id => {
+    const previous = beforeById.get(id) ?? null;
+    const next = afterById.get(id) ?? null;
+    if (previous && next && sameSegment(previous, next)) {
+      return;
+    }
+    segmentsBefore[id] = previous;
+    segmentsAfter[id] = next;
+    changed = true;
+  });
+
+  if (changed) {
+    patchBefore.segments = segmentsBefore;
+    patchAfter.segments = segmentsAfter;
+  }
+  return changed || patchBefore.prompt !== undefined ? { before: patchBefore, after: patchAfter } : null;
+};
+
+/**
+ * Applies one side of a history entry to the document. Segments keep their
+ * current expanded/collapsed/editing state and the list is re-sorted by order.
+ */
+export const applyPatch = (document: EditorDocument, patch: DocumentPatch): EditorDocument => {
+  if (!patch.segments) {
+    return { ...document, originalPrompt: applyPrompt(document.originalPrompt, patch) };
+  }
+
+  const changes = patch.segments;
+  const current = new Map(document.segments.map(segment => [segment.id, segment]));
+  const segments = document.segments.filter(segment => !(segment.id in changes));
+  Object.values(changes).forEach(segment => {
+    if (segment) {
+      const existing = current.get(segment.id);
+      segments.push({
+        ...segment,
+        isEditing: existing?.isEditing ?? false,
+        isExpanded: existing?.isExpanded ?? false,
+        isCollapsed: existing?.isCollapsed ?? segment.isCollapsed
+      });
+    }
+  });
+  segments.sort((a, b) => a.order - b.order);
+
+  return {
+    originalPrompt: applyPrompt(document.originalPrompt, patch),
+    segments
+  };
+};
+
+/**
+ * Records the change from `before` to `after` as one undoable step and clears
+ * the redo stack. Returns the history unchanged if nothing but view state differs.
+ */
+export const recordChange = (
+  history: HistoryState,
+  label: string,
+  kind: HistoryKind,
+  before: EditorDocument,
+  after: EditorDocument
+): HistoryState => {
+  const patch = diffDocuments(before, after);
+  if (!patch) {
+    return history;
+  }
+
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+  if (
+    kind === 'prompt' &&
+    last?.kind === 'prompt' &&
+    history.future.length === 0 &&
+    now - last.timestamp < COALESCE_WINDOW_MS &&
+    !patch.after.segments
+  ) {
+    // Splices only apply to the text they were taken from, so the run is re-diffed from where it started
+    const merged = diffDocuments(applyPatch(before, last.before), after);
+    const past = history.past.slice(0, -1);
+    return { past: merged ? [...past, { ...last, timestamp: now, ...merged }] : past, future: [] };
+  }
+
+  const entry: HistoryEntry = {
+    id: `history-${now}-${history.past.length}`,
+    label,
+    kind,
+    timestamp: now,
+    ...patch
+  };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] };
+};
+
+export const undoChange = (history: HistoryState, document: EditorDocument) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    document: applyPatch(document, entry.before),
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] }
+  };
+};
+
+export const redoChange = (history: HistoryState, document: EditorDocument) => {
+  const entry = history.future[0];
+  if (!entry) {
+    return null;
+  }
+  return {
+    document: applyPatch(document, entry.after),
+    history: { past: [...history.past, entry], future: history.future.slice(1) }
+  };
+};
+
+// Sessions saved before history existed, or hand-edited, fall back to an empty stack
+export const restoreHistory = (value: unknown): HistoryState => {
+  const candidate = value as Partial<HistoryState> | null | undefined;
+  if (!candidate || !Array.isArray(candidate.past) || !Array.isArray(candidate.future)) {
+    return emptyHistory();
+  }
+  return { past: candidate.past.slice(-MAX_HISTORY_ENTRIES), future: candidate.future };
+};
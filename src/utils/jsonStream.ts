@@ -0,0 +1,70 @@
+/**
+ * Incrementally parses a streamed top-level JSON array, yielding each object or
+ * array element as soon as its closing bracket arrives. Anything before the opening `[`
+ * (such as a Markdown code fence) is skipped.
+ */
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0;
+  private started = false;
+  private finished = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (!this.started) {
+        if (char === '[') {
+          this.started = true;
+          this.depth = 1;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 1) {
+          this.itemStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          this.finished = true;
+        } else if (this.depth === 1 && this.itemStart !== -1) {
+          items.push(JSON.parse(this.buffer.slice(this.itemStart, this.position + 1)));
+          this.itemStart = -1;
+        }
+      }
+    }
+
+    return items;
+  }
+
+  get isComplete(): boolean {
+    return this.finished;
+  }
+
+  get hasStarted(): boolean {
+    return this.started;
+  }
+}
@@ -0,0 +1,51 @@
+import type { PromptSegment } from '../components/PromptSegment';
+import type { PromptSnapshot, RevisionLog, SegmentRevision } from '../types';
+
+// Oldest revisions of a segment are dropped past this many
+export const MAX_REVISIONS_PER_SEGMENT = 50;
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Adds a revision for every segment whose content changed between `before`
+ * and `after`. A segment changing for the first time also gets its previous
+ * content logged as "Original", so the log always reaches back to where it
+ * started. New and removed segments are left alone.
+ */
+export const recordRevisions = (
+  log: RevisionLog,
+  before: PromptSegment[],
+  after: PromptSegment[],
+  label: string,
+  author: SegmentRevision['author']
+): RevisionLog => {
+  const previous = new Map(before.map(s => [s.id, s]));
+  let next = log;
+  after.forEach(segment => {
+    const old = previous.get(segment.id);
+    if (!old || old.content === segment.content) {
+      return;
+    }
+    const now = Date.now();
+    const existing = log[segment.id] ?? [];
+    const entries = existing.length > 0
+      ? existing
+      : [{ id: createId('revision'), timestamp: now, author: 'manual' as const, label: 'Original', content: old.content }];
+    next = {
+      ...next,
+      [segment.id]: [...entries, { id: createId('revision'), timestamp: now, author, label, content: segment.content }]
+        .slice(-MAX_REVISIONS_PER_SEGMENT)
+    };
+  });
+  return next;
+};
+
+export const createSnapshot = (name: string, output: string): PromptSnapshot => ({
+  id: createId('snapshot'),
+  name,
+  createdAt: Date.now(),
+  output
+});
+
+export const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,139 @@
+import type { PromptSegment } from '../components/PromptSegment';
+
+/*
+ * Nested segments are stored as one flat list in depth-first order: every
+ * segment comes after its parent, and a segment's descendants directly follow
+ * it. `order` is the position in that list, so anything that sorts by order
+ * (assembly, variants, undo) walks the tree depth-first without knowing it.
+ */
+
+const byOrder = (segments: PromptSegment[]) => [...segments].sort((a, b) => a.order - b.order);
+
+// Depth of every segment, 0 for top-level ones; expects depth-first order
+export const getDepths = (segments: PromptSegment[]): Map<string, number> => {
+  const depths = new Map<string, number>();
+  byOrder(segments).forEach(segment => {
+    const parentDepth = segment.parentId ? depths.get(segment.parentId) : undefined;
+    depths.set(segment.id, parentDepth === undefined ? 0 : parentDepth + 1);
+  });
+  return depths;
+};
+
+// The segment's descendants: the run of deeper segments right after it
+export const getDescendantIds = (segments: PromptSegment[], id: string): string[] => {
+  const sorted = byOrder(segments);
+  const depths = getDepths(sorted);
+  const index = sorted.findIndex(s => s.id === id);
+  if (index === -1) {
+    return [];
+  }
+  const depth = depths.get(id)!;
+  const ids: string[] = [];
+  for (let i = index + 1; i < sorted.length && depths.get(sorted[i].id)! > depth; i++) {
+    ids.push(sorted[i].id);
+  }
+  return ids;
+};
+
+export const hasChildren = (segments: PromptSegment[], id: string) =>
+  segments.some(s => s.parentId === id);
+
+// Segments to show: everything except the descendants of collapsed groups
+export const visibleSegments = (segments: PromptSegment[]): PromptSegment[] => {
+  const depths = getDepths(segments);
+  let hiddenBelow = Infinity;
+  return byOrder(segments).filter(segment => {
+    const depth = depths.get(segment.id)!;
+    if (depth > hiddenBelow) {
+      return false;
+    }
+    hiddenBelow = segment.isCollapsed ? depth : Infinity;
+    return true;
+  });
+};
+
+/**
+ * Puts the segments back in depth-first order and renumbers them. Siblings
+ * keep their relative order; a parent id that points at a missing segment or
+ * would make a cycle is cleared, making that segment top-level.
+ */
+export const normalizeTree = (segments: PromptSegment[]): PromptSegment[] => {
+  const sorted = byOrder(segments);
+  const ids = new Set(sorted.map(s => s.id));
+  const parents = new Map(sorted.map(s => [s.id, s.parentId && ids.has(s.parentId) ? s.parentId : null]));
+  sorted.forEach(segment => {
+    let ancestor = parents.get(segment.id) ?? null;
+    for (let steps = 0; ancestor && ancestor !== segment.id && steps < sorted.length; steps++) {
+      ancestor = parents.get(ancestor) ?? null;
+    }
+    if (ancestor === segment.id) {
+      parents.set(segment.id, null);
+    }
+  });
+
+  const children = new Map<string | null, PromptSegment[]>();
+  sorted.forEach(segment => {
+    const parent = parents.get(segment.id) ?? null;
+    children.set(parent, [...(children.get(parent) ?? []), segment]);
+  });
+
+  const result: PromptSegment[] = [];
+  const visit = (parentId: string | null) => {
+    (children.get(parentId) ?? []).forEach(segment => {
+      const parent = parents.get(segment.id) ?? undefined;
+      result.push(segment.parentId === parent && segment.order === result.length
+        ? segment
+        : { ...segment, parentId: parent, order: result.length });
+      visit(segment.id);
+    });
+  };
+  visit(null);
+  return result;
+};
+
+export interface DropProjection {
+  depth: number;
+  parentId: string | undefined;
+  // The visible segment the dragged one lands after, if any
+  afterId: string | undefined;
+}
+
+/**
+ * Where a dragged segment would land, following the dnd-kit sortable tree
+ * approach: the vertical position picks the neighbours, and the horizontal
+ * drag distance in indentation steps picks the depth, limited to what the
+ * neighbours allow. `visible` must not contain the dragged segment's descendants.
+ */
+export const projectDrop = (
+  visible: PromptSegment[],
+  depths: Map<string, number>,
+  activeId: string,
+  overId: string,
+  indentSteps: number
+): DropProjection => {
+  const activeIndex = visible.findIndex(s => s.id === activeId);
+  const overIndex = visible.findIndex(s => s.id === overId);
+  const moved = [...visible];
+  const [active] = moved.splice(activeIndex, 1);
+  moved.splice(overIndex, 0, active);
+
+  const previous = moved[overIndex - 1];
+  const next = moved[overIndex + 1];
+  const maxDepth = previous ? depths.get(previous.id)! + 1 : 0;
+  const minDepth = next ? depths.get(next.id)! : 0;
+  const depth = Math.min(maxDepth, Math.max(minDepth, depths.get(activeId)! + indentSteps));
+
+  // The parent is the nearest segment above at one level up
+  const parent = depth === 0
+    ? undefined
+    : moved.slice(0, overIndex).reverse().find(s => depths.get(s.id) === depth - 1);
+  return { depth, parentId: parent?.id, afterId: previous?.id };
+};
+
+// Moves a segment with its descendants to a projected drop position
+export const moveSegment = (segments: PromptSegment[], activeId: string, projection: DropProjection): PromptSegment[] => {
+  const after = segments.find(s => s.id === projection.afterId);
+  // Half a step after its new neighbour sorts it right behind it among its new siblings
+  const order = after ? after.order + 0.5 : -1;
+  return normalizeTree(segments.map(s => (s.id === activeId ? { ...s, parentId: projection.parentId, order } : s)));
+};
@@ -0,0 +1,103 @@
+import { PromptSegment } from '../components/PromptSegment';
+import type { TemplateVariable, VariableType } from '../types';
+
+// {{name}}, {{ name }}, {{user.name}}, {{tool-list}}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+export type TemplatePart =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; raw: string };
+
+export interface VariableUsage {
+  name: string;
+  // Segments the placeholder appears in, in segment order
+  segmentIds: string[];
+  definition: TemplateVariable | null;
+}
+
+export interface VariableReport {
+  usages: VariableUsage[];
+  // Used in a segment but not defined in the panel
+  undefinedNames: string[];
+  // Defined in the panel but not used in any segment
+  unusedNames: string[];
+  // Defined variables whose default value does not match their type
+  invalid: { name: string; message: string }[];
+}
+
+export const splitTemplate = (text: string): TemplatePart[] => {
+  const parts: TemplatePart[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > cursor) {
+      parts.push({ type: 'text', text: text.slice(cursor, match.index) });
+    }
+    parts.push({ type: 'variable', name: match[1], raw: match[0] });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < text.length) {
+    parts.push({ type: 'text', text: text.slice(cursor) });
+  }
+  return parts;
+};
+
+export const extractVariableNames = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+/**
+ * Substitutes defined variables; placeholders without a definition are left
+ * as written so they stay visible in the output.
+ */
+export const renderTemplate = (text: string, variables: TemplateVariable[]): string => {
+  const values = new Map(variables.map(variable => [variable.name, variable.defaultValue]));
+  return text.replace(VARIABLE_PATTERN, (raw, name: string) => values.get(name) ?? raw);
+};
+
+export const validateValue = (type: VariableType, value: string): string | null => {
+  switch (type) {
+    case 'number':
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? null : 'must be a number';
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'must be true or false';
+    case 'json':
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return 'must be valid JSON';
+      }
+    default:
+      return null;
+  }
+};
+
+export const analyzeVariables = (segments: PromptSegment[], variables: TemplateVariable[]): VariableReport => {
+  const segmentIdsByName = new Map<string, string[]>();
+  [...segments]
+    .sort((a, b) => a.order - b.order)
+    .forEach(segment => {
+      extractVariableNames(segment.content).forEach(name => {
+        segmentIdsByName.set(name, [...(segmentIdsByName.get(name) ?? []), segment.id]);
+      });
+    });
+
+  const definitions = new Map(variables.map(variable => [variable.name, variable]));
+  const names = [...new Set([...segmentIdsByName.keys(), ...definitions.keys()])];
+
+  const usages = names.map(name => ({
+    name,
+    segmentIds: segmentIdsByName.get(name) ?? [],
+    definition: definitions.get(name) ?? null
+  }));
+
+  return {
+    usages,
+    undefinedNames: usages.filter(usage => !usage.definition).map(usage => usage.name),
+    unusedNames: usages.filter(usage => usage.segmentIds.length === 0).map(usage => usage.name),
+    invalid: variables.flatMap(variable => {
+      const message = validateValue(variable.type, variable.defaultValue);
+      return message ? [{ name: variable.name, message }] : [];
+    })
+  };
+};
@@ -0,0 +1,52 @@
+import { PromptSegment } from '../components/PromptSegment';
+import type { AssemblyOptions, PromptVariant } from '../types';
+import { assembleSegments } from './assembly';
+import { normalizeTree } from './segmentTree';
+
+const createId = () => `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const captureVariant = (name: string, segments: PromptSegment[]): PromptVariant => ({
+  id: createId(),
+  name,
+  segmentIds: segments
+    .filter(s => s.isIncluded)
+    .sort((a, b) => a.order - b.order)
+    .map(s => s.id),
+  createdAt: Date.now()
+});
+
+/**
+ * The segments as they would be with the variant applied: its segments are
+ * included in the saved order, and every other segment is excluded and kept
+ * after them in its current order. Ids of deleted segments are skipped.
+ * Subsections stay under their parents, in the variant's order among siblings.
+ */
+export const applyVariant = (variant: PromptVariant, segments: PromptSegment[]): PromptSegment[] => {
+  const byId = new Map(segments.map(s => [s.id, s]));
+  const included = variant.segmentIds.flatMap(id => byId.get(id) ?? []);
+  const includedIds = new Set(included.map(s => s.id));
+  const excluded = [...segments]
+    .sort((a, b) => a.order - b.order)
+    .filter(s => !includedIds.has(s.id));
+
+  return normalizeTree([
+    ...included.map((s, index) => ({ ...s, isIncluded: true, order: index })),
+    ...excluded.map((s, index) => ({ ...s, isIncluded: false, order: included.length + index }))
+  ]);
+};
+
+export const assembleVariant = (variant: PromptVariant, segments: PromptSegment[], options?: AssemblyOptions): string =>
+  assembleSegments(applyVariant(variant, segments), options);
+
+// Segment ids the variant refers to that no longer exist
+export const missingSegmentIds = (variant: PromptVariant, segments: PromptSegment[]): string[] => {
+  const ids = new Set(segments.map(s => s.id));
+  return variant.segmentIds.filter(id => !ids.has(id));
+};
+
+// True when the segments already match the variant's selection and order
+export const matchesVariant = (variant: PromptVariant, segments: PromptSegment[]): boolean => {
+  const current = captureVariant('', segments).segmentIds;
+  const expected = variant.segmentIds.filter(id => segments.some(s => s.id === id));
+  return current.length === expected.length && current.every((id, index) => id === expected[index]);
+};